@@ -1,15 +1,32 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
-import { ScheduleConfig, GeneratedSchedule, LunchConfig, TeamType, SideTaskRule, GreenRotation, GreenStation, ShiftException, GeneratedGreenSchedule, GreenNotification, ForcedAssignment, PresetData } from './types';
-import { generateSchedule } from './services/scheduler';
-import { generateGreenSchedule, ROTATIONS_META } from './services/greenScheduler';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ScheduleConfig, GeneratedSchedule, LunchConfig, OffsetOptimization, PinnedBlock, TimeBlock, TeamType, SideTaskRule, GreenRotation, GreenStation, ShiftException, GeneratedGreenSchedule, GreenNotification, ForcedAssignment, PresetData, RotationMeta, GreenStationDef, CycleStep, Person, DaySchedule, DaySource, ArchivedDay, ArchiveEntry, StationTally, GreenScheduleOptions, GreenCandidate, GreenSolverMode, GreenRules, GreenRuleId, PresenceThreshold, Absence, AbsenceReason, DayFreeze, RebalanceReport } from './types';
+import { generateSchedule, optimizeOffsets, getStartShowIndex, getStationCoverage, DEFAULT_CYCLE, normalizeScheduleConfig } from './services/scheduler';
+import { BLUE_STATION_PALETTE, GREEN_STATION_PALETTE } from './components/stationColors';
+import { generateGreenSchedule, generateGreenCandidates, DEFAULT_ROTATIONS_META, DEFAULT_GREEN_STATIONS, validateRotations, sortStations, acceptsLateArrivals, DEFAULT_PRESENCE_THRESHOLD } from './services/greenScheduler';
+import { validateShiftExceptions, getMissedRanges, formatMissed, toTimeString, getMinutes, mergeLegacyShifts } from './services/shifts';
+import { applySentHome, diffBlueBlocks, diffGreenRotations } from './services/rebalance';
+import { filterAvailable, getLeaveWarnings, getAbsence, validateAbsences, ABSENCE_REASON_LABELS } from './services/availability';
+import { seedDirectory, nextPersonId, DEFAULT_TEAM_SIZES, getRoster, getTeams, migrateSlots, migrateLegacyPreset, remapKeys, remapEmployeeIds } from './services/directory';
 import { EmployeeCard } from './components/EmployeeCard';
-import { isAfter, isBefore, parse, startOfDay } from 'date-fns';
+import { ScheduleVis } from './components/ScheduleVis';
+import { StationCoverage } from './components/StationCoverage';
+import { WeekGrid } from './components/WeekGrid';
+import { RotationGrid } from './components/RotationGrid';
+import { FairnessReport } from './components/FairnessReport';
+import { GreenCandidates } from './components/GreenCandidates';
+import { AssignmentExplanation } from './components/AssignmentExplanation';
+import { ShiftEditor } from './components/ShiftEditor';
+import { solveGreenSchedule, findBlockingRules } from './services/greenSolver';
+import { GREEN_RULE_IDS, GREEN_RULE_LABELS, completeGreenRules, describeGreenRule } from './services/greenRules';
+import { generateDays, getWeekDates, toDateKey, fromDateKey, WEEKDAYS, DayInput } from './services/week';
+import { publishDay, loadArchivedDay, listArchive, loadArchiveRange, deleteArchivedDay } from './services/archive';
+import { buildLedger, tallyRange, LEDGER_LOOKBACK_DAYS } from './services/fairness';
+import { format, isAfter, isBefore, parse, startOfDay, subDays } from 'date-fns';
 import { 
   AlertTriangle, 
   Sparkles, 
   Clock, 
-  Users, 
   RefreshCw,
   LayoutGrid,
   Settings2,
@@ -35,7 +52,18 @@ import {
   Eye,
   EyeOff,
   Download,
-  Upload
+  Upload,
+  Crosshair,
+  GanttChart,
+  Layers,
+  BookUser,
+  CalendarDays,
+  Archive,
+  History,
+  ChevronLeft,
+  ChevronRight,
+  SlidersHorizontal,
+  LogOut
 } from 'lucide-react';
 
 const EMPLOYEE_NAMES_LIST = [
@@ -47,17 +75,46 @@ const EMPLOYEE_NAMES_LIST = [
 
 // --- Local Storage Helpers ---
 const STORAGE_KEYS = {
+  PEOPLE: 'museum_people',
+  SHIFTS: 'museum_shifts',
+  ABSENCES: 'museum_absences',
   BLUE_CONFIG: 'museum_blue_config',
-  BLUE_NAMES: 'museum_blue_names',
-  BLUE_SHIFTS: 'museum_blue_shifts',
-  GREEN_COUNT: 'museum_green_count',
-  GREEN_NAMES: 'museum_green_names',
+  BLUE_LUNCH: 'museum_blue_lunch',
+  BLUE_OFFSETS: 'museum_blue_offsets',
+  BLUE_PINS: 'museum_blue_pins',
   GREEN_TASKS: 'museum_green_tasks',
-  GREEN_EXCEPTIONS: 'museum_green_exceptions',
   GREEN_FORCED: 'museum_green_forced',
+  GREEN_LUNCH: 'museum_green_lunch',
+  GREEN_ROTATIONS: 'museum_green_rotations',
+  GREEN_STATIONS: 'museum_green_stations',
+  GREEN_SEED: 'museum_green_seed',
+  GREEN_SOLVER: 'museum_green_solver',
+  GREEN_RULES: 'museum_green_rules',
+  GREEN_PRESENCE: 'museum_green_presence',
   CURRENT_TEAM: 'museum_current_team',
   TEAM_LOCKS: 'museum_team_locks',
-  PRESETS: 'museum_presets'
+  PRESETS: 'museum_presets',
+  WEEK_SOURCES: 'museum_week_sources',
+  DAY_FREEZE: 'museum_day_freeze'
+};
+
+// Slot-based keys from before the employee directory, read once to migrate
+const LEGACY_STORAGE_KEYS = {
+  BLUE_NAMES: 'museum_blue_names',
+  GREEN_COUNT: 'museum_green_count',
+  GREEN_NAMES: 'museum_green_names'
+};
+
+// Per-team shift keys from before both teams shared one shift model, read once to migrate
+const LEGACY_SHIFT_KEYS = {
+  BLUE: 'museum_blue_shifts',
+  GREEN: 'museum_green_exceptions'
+};
+
+// Helper to convert HH:mm to minutes from midnight
+const timeToMinutes = (time: string): number => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
 };
 
 const loadState = <T,>(key: string, fallback: T): T => {
@@ -80,60 +137,224 @@ const saveState = (key: string, value: any) => {
   }
 };
 
+// Seeds the directory on first run. Older installs kept names and everything else per slot
+// (A#/B#); that data is re-keyed by person in storage before the rest of the state loads.
+const loadPeople = (): Person[] => {
+  const saved = loadState<Person[] | null>(STORAGE_KEYS.PEOPLE, null);
+  if (saved) return saved;
+
+  const blueNames = loadState<Record<string, string> | null>(LEGACY_STORAGE_KEYS.BLUE_NAMES, null);
+  const greenNames = loadState<Record<string, string> | null>(LEGACY_STORAGE_KEYS.GREEN_NAMES, null);
+  const greenCount = loadState<number | null>(LEGACY_STORAGE_KEYS.GREEN_COUNT, null);
+  const blueCount = loadState<{ numEmployees?: number } | null>(STORAGE_KEYS.BLUE_CONFIG, null)?.numEmployees;
+
+  // A fresh install has no slots to carry over
+  if (!blueNames && !greenNames && greenCount === null && blueCount === undefined) {
+    const people = seedDirectory(EMPLOYEE_NAMES_LIST);
+    saveState(STORAGE_KEYS.PEOPLE, people);
+    return people;
+  }
+
+  const { people, slotToPerson } = migrateSlots(
+    seedDirectory(EMPLOYEE_NAMES_LIST, 0, 0),
+    blueNames || {},
+    greenNames || {},
+    blueCount ?? DEFAULT_TEAM_SIZES.blue,
+    greenCount ?? DEFAULT_TEAM_SIZES.green
+  );
+
+  const rekey = <T,>(key: string, fn: (value: T) => T) => {
+    const value = loadState<T | null>(key, null);
+    if (value !== null) saveState(key, fn(value));
+  };
+  rekey<Record<string, any>>(LEGACY_SHIFT_KEYS.BLUE, v => remapKeys(v, slotToPerson));
+  rekey<Record<string, number>>(STORAGE_KEYS.BLUE_OFFSETS, v => remapKeys(v, slotToPerson));
+  rekey<PinnedBlock[]>(STORAGE_KEYS.BLUE_PINS, v => remapEmployeeIds(v, slotToPerson));
+  rekey<SideTaskRule[]>(STORAGE_KEYS.GREEN_TASKS, v => remapEmployeeIds(v, slotToPerson));
+  rekey<ShiftException[]>(LEGACY_SHIFT_KEYS.GREEN, v => remapEmployeeIds(v, slotToPerson));
+  rekey<ForcedAssignment[]>(STORAGE_KEYS.GREEN_FORCED, v => remapEmployeeIds(v, slotToPerson));
+  rekey<{ blue: Record<string, boolean>; green: Record<string, boolean> }>(STORAGE_KEYS.TEAM_LOCKS, v => ({
+    blue: remapKeys(v.blue, slotToPerson),
+    green: remapKeys(v.green, slotToPerson)
+  }));
+
+  Object.values(LEGACY_STORAGE_KEYS).forEach(key => localStorage.removeItem(key));
+  saveState(STORAGE_KEYS.PEOPLE, people);
+  return people;
+};
+
+// Blue kept arrive/leave times and Green kept shift exceptions; both become the shared windows
+const loadShifts = (): ShiftException[] => {
+  const saved = loadState<ShiftException[] | null>(STORAGE_KEYS.SHIFTS, null);
+  if (saved) return saved;
+
+  const shifts = mergeLegacyShifts(loadState(LEGACY_SHIFT_KEYS.GREEN, []), loadState(LEGACY_SHIFT_KEYS.BLUE, {}));
+  Object.values(LEGACY_SHIFT_KEYS).forEach(key => localStorage.removeItem(key));
+  saveState(STORAGE_KEYS.SHIFTS, shifts);
+  return shifts;
+};
+
+// Frozen blocks come back from storage with their times as strings
+const loadDayFreeze = (): DayFreeze | null => {
+  const saved = loadState<DayFreeze | null>(STORAGE_KEYS.DAY_FREEZE, null);
+  if (!saved) return null;
+  const blocks = saved.blue.blocks.map(b => ({ ...b, startTime: new Date(b.startTime), endTime: new Date(b.endTime) }));
+  return { ...saved, blue: { ...saved.blue, blocks } };
+};
+
 // Initial default config
 const DEFAULT_CONFIG: ScheduleConfig = {
   frequency: 20,
   firstShowTime: "09:20",
-  numEmployees: 4,
   lastShowTime: "16:40",
-  durationOcean: 20,
-  durationFloor: 20
+  cycle: DEFAULT_CYCLE,
+  cutoffTime: "17:00"
+};
+
+const DEFAULT_LUNCH_CONFIG: LunchConfig = {
+  windowStart: "12:00",
+  windowEnd: "14:00",
+  duration: 35
+};
+
+const DEFAULT_GREEN_LUNCH_CONFIG: LunchConfig = {
+  windowStart: "12:00",
+  windowEnd: "14:00",
+  duration: 30
+};
+
+const DEFAULT_GREEN_SEED = 1;
+const DEFAULT_GREEN_SOLVER: GreenSolverMode = 'greedy';
+
+// Brings a saved preset up to date and fills in what older presets lack
+const completePreset = (saved: PresetData, people: Person[]): { people: Person[]; data: PresetData } => {
+  const { people: directory, data: { employeeShifts, ...data } } = migrateLegacyPreset(saved, people);
+  return {
+    people: directory,
+    data: {
+      ...data,
+      shiftExceptions: mergeLegacyShifts(data.shiftExceptions, employeeShifts),
+      config: normalizeScheduleConfig(data.config, DEFAULT_CONFIG),
+      lunchConfig: data.lunchConfig ?? DEFAULT_LUNCH_CONFIG,
+      greenLunchConfig: data.greenLunchConfig ?? DEFAULT_GREEN_LUNCH_CONFIG,
+      rotations: data.rotations ?? DEFAULT_ROTATIONS_META,
+      stations: data.stations ?? DEFAULT_GREEN_STATIONS,
+      employeeOffsets: data.employeeOffsets ?? {},
+      pinnedBlocks: data.pinnedBlocks ?? [],
+      greenSeed: data.greenSeed ?? DEFAULT_GREEN_SEED,
+      greenSolver: data.greenSolver ?? DEFAULT_GREEN_SOLVER,
+      greenRules: completeGreenRules(data.greenRules),
+      greenPresence: data.greenPresence ?? DEFAULT_PRESENCE_THRESHOLD
+    }
+  };
 };
 
+// Week planner selects carry the source as a single string
+const encodeDaySource = (source: DaySource): string => source.kind === 'preset' ? `preset:${source.version}` : source.kind;
+const decodeDaySource = (value: string): DaySource => value.startsWith('preset:')
+  ? { kind: 'preset', version: value.slice('preset:'.length) }
+  : value === 'closed' ? { kind: 'closed' } : { kind: 'current' };
+
 const App: React.FC = () => {
   // --- Global State ---
+  // Loaded first: it migrates slot-keyed data that the state below reads
+  const [people, setPeople] = useState<Person[]>(loadPeople);
+  const personNames = useMemo(() => Object.fromEntries(people.map(p => [p.id, p.name])), [people]);
+
+  // Calendar day the schedules on screen are for
+  const [scheduleDate, setScheduleDate] = useState(() => toDateKey(new Date()));
+  const scheduleDay = useMemo(() => scheduleDate ? fromDateKey(scheduleDate) : new Date(), [scheduleDate]);
+
+  // Everyone listed on a team, and the rosters for the day on screen: those not away
+  const [absences, setAbsences] = useState<Absence[]>(() => loadState(STORAGE_KEYS.ABSENCES, []));
+  const absenceErrors = useMemo(() => validateAbsences(absences, id => personNames[id] || id), [absences, personNames]);
+  const blueListed = useMemo(() => getRoster(people, TeamType.BLUE), [people]);
+  const greenListed = useMemo(() => getRoster(people, TeamType.GREEN), [people]);
+  const blueRoster = useMemo(() => filterAvailable(blueListed, absences, scheduleDate), [blueListed, absences, scheduleDate]);
+  const greenRoster = useMemo(() => filterAvailable(greenListed, absences, scheduleDate), [greenListed, absences, scheduleDate]);
+  const leaveWarnings = useMemo(() => [
+    ...getLeaveWarnings(blueListed, absences, scheduleDate, 'Blue', id => personNames[id] || id),
+    ...getLeaveWarnings(greenListed, absences, scheduleDate, 'Green', id => personNames[id] || id)
+  ], [blueListed, greenListed, absences, scheduleDate, personNames]);
+  const certifications = useMemo(() => Object.fromEntries(people.map(p => [p.id, p.certifications || []])), [people]);
+
+  // Shift windows belong to people, so they follow them between teams; each team only checks its own
+  const [shiftExceptions, setShiftExceptions] = useState<ShiftException[]>(loadShifts);
+  const getShiftErrors = (roster: string[]) =>
+    validateShiftExceptions(shiftExceptions.filter(ex => roster.includes(ex.employeeId)), id => personNames[id] || id);
+  const blueShiftErrors = useMemo(() => getShiftErrors(blueRoster), [shiftExceptions, blueRoster, personNames]);
+  const greenShiftErrors = useMemo(() => getShiftErrors(greenRoster), [shiftExceptions, greenRoster, personNames]);
+
+  // A day under way after someone went home: what already started stays as it was.
+  // Going home only shortens that day's windows; the saved shifts are left alone.
+  const [dayFreeze, setDayFreeze] = useState<DayFreeze | null>(loadDayFreeze);
+  const [rebalanceReport, setRebalanceReport] = useState<RebalanceReport | null>(null);
+  const activeFreeze = dayFreeze && dayFreeze.date === scheduleDate ? dayFreeze : null;
+  const dayShifts = useMemo(() => applySentHome(shiftExceptions, activeFreeze?.sentHome ?? []), [shiftExceptions, activeFreeze]);
+
   const [currentTeam, setCurrentTeam] = useState<TeamType>(() => loadState(STORAGE_KEYS.CURRENT_TEAM, TeamType.BLUE));
   const [currentTime, setCurrentTime] = useState(new Date());
   const [fadePastEvents, setFadePastEvents] = useState(true);
 
   // --- Blue Team State ---
-  const [config, setConfig] = useState<ScheduleConfig>(() => loadState(STORAGE_KEYS.BLUE_CONFIG, DEFAULT_CONFIG));
-  // Keep lunch config in state but we removed the UI for it per previous request, keeping code minimal
-  const [lunchConfig, setLunchConfig] = useState<LunchConfig>({ windowStart: "12:00", windowEnd: "14:00", duration: 35 });
+  // Normalize so configs saved before newer fields existed stay complete
+  const [config, setConfig] = useState<ScheduleConfig>(() => normalizeScheduleConfig(loadState(STORAGE_KEYS.BLUE_CONFIG, DEFAULT_CONFIG), DEFAULT_CONFIG));
+  const [lunchConfig, setLunchConfig] = useState<LunchConfig>(() => loadState(STORAGE_KEYS.BLUE_LUNCH, DEFAULT_LUNCH_CONFIG));
   
-  const [employeeOffsets, setEmployeeOffsets] = useState<Record<string, number>>({});
-  
-  const [employeeShifts, setEmployeeShifts] = useState<Record<string, { start: string, end: string }>>(() => 
-    loadState(STORAGE_KEYS.BLUE_SHIFTS, {})
-  );
+  const [employeeOffsets, setEmployeeOffsets] = useState<Record<string, number>>(() => loadState(STORAGE_KEYS.BLUE_OFFSETS, {}));
+  const [pinnedBlocks, setPinnedBlocks] = useState<PinnedBlock[]>(() => loadState(STORAGE_KEYS.BLUE_PINS, []));
   
-  const [employeeNames, setEmployeeNames] = useState<Record<string, string>>(() => 
-    loadState(STORAGE_KEYS.BLUE_NAMES, {})
-  );
-
   const [schedule, setSchedule] = useState<GeneratedSchedule | null>(null);
   const [showAllIssues, setShowAllIssues] = useState(false);
+  const [offsetOptimization, setOffsetOptimization] = useState<OffsetOptimization | null>(null);
+  const [isOptimizing, setIsOptimizing] = useState(false);
+  const [showDirectory, setShowDirectory] = useState(false);
+  const [blueView, setBlueView] = useState<'cards' | 'timeline' | 'stations'>('cards');
+  const [selectedBlueEmployee, setSelectedBlueEmployee] = useState<string | null>(null);
 
   // --- Green Team State ---
-  const [numGreenEmployees, setNumGreenEmployees] = useState(() => loadState(STORAGE_KEYS.GREEN_COUNT, 6));
-  const [greenEmployeeNames, setGreenEmployeeNames] = useState<Record<string, string>>(() => 
-    loadState(STORAGE_KEYS.GREEN_NAMES, {})
-  );
-  
   const [sideTasks, setSideTasks] = useState<SideTaskRule[]>(() => 
     loadState(STORAGE_KEYS.GREEN_TASKS, [])
   );
   
-  const [shiftExceptions, setShiftExceptions] = useState<ShiftException[]>(() => 
-    loadState(STORAGE_KEYS.GREEN_EXCEPTIONS, [])
-  );
-  
   const [forcedAssignments, setForcedAssignments] = useState<ForcedAssignment[]>(() =>
     loadState(STORAGE_KEYS.GREEN_FORCED, [])
   );
 
+  const [greenLunchConfig, setGreenLunchConfig] = useState<LunchConfig>(() =>
+    loadState(STORAGE_KEYS.GREEN_LUNCH, DEFAULT_GREEN_LUNCH_CONFIG)
+  );
+
+  const [rotationsMeta, setRotationsMeta] = useState<RotationMeta[]>(() =>
+    loadState(STORAGE_KEYS.GREEN_ROTATIONS, DEFAULT_ROTATIONS_META)
+  );
+  const rotationErrors = useMemo(() => validateRotations(rotationsMeta), [rotationsMeta]);
+
+  const [greenStations, setGreenStations] = useState<GreenStationDef[]>(() =>
+    loadState(STORAGE_KEYS.GREEN_STATIONS, DEFAULT_GREEN_STATIONS)
+  );
+  const stationsByPriority = useMemo(() => sortStations(greenStations), [greenStations]);
+
   const [greenData, setGreenData] = useState<GeneratedGreenSchedule>({ rotations: [], notifications: [] });
-  const [greenRefreshTrigger, setGreenRefreshTrigger] = useState(0); // To force re-shuffle
+  // Re-Shuffle steps to the next seed, so every earlier shuffle can be brought back exactly
+  const [greenSeed, setGreenSeed] = useState<number>(() => loadState(STORAGE_KEYS.GREEN_SEED, DEFAULT_GREEN_SEED));
+  const [greenSolver, setGreenSolver] = useState<GreenSolverMode>(() => loadState(STORAGE_KEYS.GREEN_SOLVER, DEFAULT_GREEN_SOLVER));
+  const [greenRules, setGreenRules] = useState<GreenRules>(() => completeGreenRules(loadState<GreenRules | undefined>(STORAGE_KEYS.GREEN_RULES, undefined)));
+  const [greenPresence, setGreenPresence] = useState<PresenceThreshold>(() => loadState(STORAGE_KEYS.GREEN_PRESENCE, DEFAULT_PRESENCE_THRESHOLD));
+  const [candidateCount, setCandidateCount] = useState(20);
+  const [greenCandidates, setGreenCandidates] = useState<GreenCandidate[] | null>(null);
+  // Which hard rule blocks an infeasible day, kept with the schedule it was worked out for
+  const [blockingRules, setBlockingRules] = useState<{ schedule: GeneratedGreenSchedule; lines: string[] } | null>(null);
+  const [isFindingBlockingRules, setIsFindingBlockingRules] = useState(false);
+  // Placement whose explanation is open, with the schedule it belongs to (live, week or archive)
+  const [explainedPlacement, setExplainedPlacement] = useState<{
+    rotationId: number;
+    employeeId: string;
+    station: string;
+    schedule: GeneratedGreenSchedule;
+    stations: GreenStationDef[];
+    names: Record<string, string>;
+  } | null>(null);
 
   // --- Team Swap State ---
   const [teamLocks, setTeamLocks] = useState<{ blue: Record<string, boolean>; green: Record<string, boolean> }>(() =>
@@ -149,19 +370,91 @@ const App: React.FC = () => {
   const [currentWeekday, setCurrentWeekday] = useState('Monday');
   const [currentVersion, setCurrentVersion] = useState('v1');
 
+  // --- Week Planner State ---
+  const [weekSources, setWeekSources] = useState<Record<string, DaySource>>(() => loadState(STORAGE_KEYS.WEEK_SOURCES, {}));
+  const [weekStart, setWeekStart] = useState(() => toDateKey(new Date()));
+  const [weekDays, setWeekDays] = useState<DaySchedule[]>([]);
+  const [selectedWeekDate, setSelectedWeekDate] = useState<string | null>(null);
+  const [selectedWeekEmployee, setSelectedWeekEmployee] = useState<string | null>(null);
+  const [showWeek, setShowWeek] = useState(false);
+  const weekDates = useMemo(() => getWeekDates(weekStart ? fromDateKey(weekStart) : new Date()), [weekStart]);
+  const selectedWeekDay = weekDays.find(d => d.date === selectedWeekDate) || null;
+  // Presets still listing people who are away on the day they were used for
+  const weekLeaveWarnings = useMemo(() => weekDays.flatMap(day => [
+    ...getLeaveWarnings(day.blueOnLeave ?? [], absences, day.date, 'Blue', id => personNames[id] || id),
+    ...getLeaveWarnings(day.greenOnLeave ?? [], absences, day.date, 'Green', id => personNames[id] || id)
+  ].map(warning => `${day.label}: ${warning}`)), [weekDays, absences, personNames]);
+
+  // --- Archive State ---
+  const [archiveEntries, setArchiveEntries] = useState<ArchiveEntry[]>([]);
+  const [selectedArchiveDate, setSelectedArchiveDate] = useState<string | null>(null);
+  const [archivedDay, setArchivedDay] = useState<ArchivedDay | null>(null);
+  const [showArchive, setShowArchive] = useState(false);
+
+  // --- Fairness State ---
+  // Ledger of earlier published days, fed to the Green scorer for the day on screen
+  const [priorCounts, setPriorCounts] = useState<StationTally>({});
+  const [reportFrom, setReportFrom] = useState(() => toDateKey(subDays(new Date(), 30)));
+  const [reportTo, setReportTo] = useState(() => toDateKey(new Date()));
+  const [fairnessReport, setFairnessReport] = useState<{ tally: StationTally; stations: GreenStationDef[]; names: Record<string, string>; dayCount: number } | null>(null);
+
   // --- Persistence Effects ---
   useEffect(() => saveState(STORAGE_KEYS.CURRENT_TEAM, currentTeam), [currentTeam]);
+  useEffect(() => saveState(STORAGE_KEYS.PEOPLE, people), [people]);
+  useEffect(() => saveState(STORAGE_KEYS.SHIFTS, shiftExceptions), [shiftExceptions]);
+  useEffect(() => saveState(STORAGE_KEYS.ABSENCES, absences), [absences]);
   useEffect(() => saveState(STORAGE_KEYS.BLUE_CONFIG, config), [config]);
-  useEffect(() => saveState(STORAGE_KEYS.BLUE_NAMES, employeeNames), [employeeNames]);
-  useEffect(() => saveState(STORAGE_KEYS.BLUE_SHIFTS, employeeShifts), [employeeShifts]);
-  useEffect(() => saveState(STORAGE_KEYS.GREEN_COUNT, numGreenEmployees), [numGreenEmployees]);
-  useEffect(() => saveState(STORAGE_KEYS.GREEN_NAMES, greenEmployeeNames), [greenEmployeeNames]);
+  useEffect(() => saveState(STORAGE_KEYS.BLUE_LUNCH, lunchConfig), [lunchConfig]);
+  useEffect(() => saveState(STORAGE_KEYS.BLUE_OFFSETS, employeeOffsets), [employeeOffsets]);
+  useEffect(() => saveState(STORAGE_KEYS.BLUE_PINS, pinnedBlocks), [pinnedBlocks]);
   useEffect(() => saveState(STORAGE_KEYS.GREEN_TASKS, sideTasks), [sideTasks]);
-  useEffect(() => saveState(STORAGE_KEYS.GREEN_EXCEPTIONS, shiftExceptions), [shiftExceptions]);
   useEffect(() => saveState(STORAGE_KEYS.GREEN_FORCED, forcedAssignments), [forcedAssignments]);
+  useEffect(() => saveState(STORAGE_KEYS.GREEN_LUNCH, greenLunchConfig), [greenLunchConfig]);
+  useEffect(() => saveState(STORAGE_KEYS.GREEN_ROTATIONS, rotationsMeta), [rotationsMeta]);
+  useEffect(() => saveState(STORAGE_KEYS.GREEN_STATIONS, greenStations), [greenStations]);
+  useEffect(() => saveState(STORAGE_KEYS.GREEN_SEED, greenSeed), [greenSeed]);
+  useEffect(() => saveState(STORAGE_KEYS.GREEN_SOLVER, greenSolver), [greenSolver]);
+  useEffect(() => saveState(STORAGE_KEYS.GREEN_RULES, greenRules), [greenRules]);
+  useEffect(() => saveState(STORAGE_KEYS.GREEN_PRESENCE, greenPresence), [greenPresence]);
   useEffect(() => saveState(STORAGE_KEYS.TEAM_LOCKS, teamLocks), [teamLocks]);
   useEffect(() => saveState(STORAGE_KEYS.PRESETS, presets), [presets]);
+  useEffect(() => saveState(STORAGE_KEYS.WEEK_SOURCES, weekSources), [weekSources]);
+  useEffect(() => saveState(STORAGE_KEYS.DAY_FREEZE, dayFreeze), [dayFreeze]);
+
+
+  // --- Effects (Archive) ---
+  const refreshArchive = () =>
+    listArchive()
+      .then(setArchiveEntries)
+      .catch(e => console.warn('Failed to read the schedule archive', e));
 
+  useEffect(() => {
+    refreshArchive();
+  }, []);
+
+  useEffect(() => {
+    if (!selectedArchiveDate) {
+      setArchivedDay(null);
+      return;
+    }
+    loadArchivedDay(selectedArchiveDate)
+      .then(setArchivedDay)
+      .catch(e => console.warn(`Failed to load archived ${selectedArchiveDate}`, e));
+  }, [selectedArchiveDate]);
+
+  // Only published days strictly before `date` count, so re-publishing today changes nothing here
+  const loadHistoryBefore = (date: Date) =>
+    loadArchiveRange(toDateKey(subDays(date, LEDGER_LOOKBACK_DAYS)), toDateKey(subDays(date, 1)));
+
+  useEffect(() => {
+    loadHistoryBefore(scheduleDay)
+      .then(days => {
+        const ledger = buildLedger(days, toDateKey(scheduleDay));
+        // Keep the same object when nothing changed so Green does not reshuffle
+        setPriorCounts(prev => JSON.stringify(prev) === JSON.stringify(ledger) ? prev : ledger);
+      })
+      .catch(e => console.warn('Failed to build the fairness ledger', e));
+  }, [scheduleDay, archiveEntries]);
 
   // --- Effects (Time) ---
   useEffect(() => {
@@ -172,41 +465,69 @@ const App: React.FC = () => {
 
   // --- Effects (Blue) ---
   useEffect(() => {
+    // Keep the last good schedule while shift windows are being edited into a valid state
+    if (blueShiftErrors.length > 0) return;
     const offsets = { ...employeeOffsets };
     let changed = false;
-    for (let i = 1; i <= config.numEmployees; i++) {
-      const id = `A${i}`;
+    blueRoster.forEach((id, i) => {
       if (offsets[id] === undefined) {
-        offsets[id] = i - 1; // Default staggered start
+        offsets[id] = i; // Default staggered start
         changed = true;
       }
-    }
+    });
     if (changed) {
       setEmployeeOffsets(offsets);
     }
     
     if (!changed) {
-      // Pass the employeeShifts to the generator
-      const newSchedule = generateSchedule(config, employeeOffsets, employeeShifts);
+      // Pass the shift windows, lunch window and manual pins to the generator
+      const newSchedule = generateSchedule(config, blueRoster, employeeOffsets, dayShifts, lunchConfig, pinnedBlocks, certifications, scheduleDay, activeFreeze?.blue ?? null);
       setSchedule(newSchedule);
     }
-  }, [config, employeeOffsets, employeeShifts]);
+  }, [config, blueRoster, employeeOffsets, dayShifts, blueShiftErrors, lunchConfig, pinnedBlocks, certifications, scheduleDay, activeFreeze]);
+
+  // A before/after comparison only holds for the inputs it was computed from
+  useEffect(() => {
+    setOffsetOptimization(null);
+  }, [config, blueRoster, dayShifts, lunchConfig, pinnedBlocks, certifications, scheduleDay, activeFreeze]);
+
+  // Bumped whenever the optimizer's inputs change, so a run started on older inputs is dropped
+  const optimizerInputs = useRef(0);
+  useEffect(() => {
+    optimizerInputs.current += 1;
+  }, [config, blueRoster, employeeOffsets, dayShifts, lunchConfig, pinnedBlocks, certifications, scheduleDay, activeFreeze]);
 
   // --- Effects (Green) ---
+  const greenOptions = useMemo<GreenScheduleOptions>(() => ({
+    rotations: rotationsMeta,
+    stations: greenStations,
+    lunchConfig: greenLunchConfig,
+    certifications,
+    priorCounts,
+    rules: greenRules,
+    presence: greenPresence,
+    frozen: activeFreeze?.green
+  }), [rotationsMeta, greenStations, greenLunchConfig, certifications, priorCounts, greenRules, greenPresence, activeFreeze]);
+
   useEffect(() => {
-    const gd = generateGreenSchedule(numGreenEmployees, sideTasks, shiftExceptions, forcedAssignments, greenEmployeeNames);
+    // Keep the last good schedule while the timetable or shift windows are being edited into a valid state
+    if (rotationErrors.length > 0 || greenShiftErrors.length > 0) return;
+    const generate = greenSolver === 'exact' ? solveGreenSchedule : generateGreenSchedule;
+    const gd = generate(greenRoster, sideTasks, dayShifts, forcedAssignments, personNames, { ...greenOptions, seed: greenSeed });
     setGreenData(gd);
-  }, [numGreenEmployees, sideTasks, shiftExceptions, forcedAssignments, greenEmployeeNames, greenRefreshTrigger]);
+  }, [greenRoster, sideTasks, dayShifts, forcedAssignments, personNames, greenOptions, rotationErrors, greenShiftErrors, greenSeed, greenSolver]);
+
+  // Candidates only hold for the inputs they were generated from
+  useEffect(() => {
+    setGreenCandidates(null);
+  }, [greenRoster, sideTasks, dayShifts, forcedAssignments, greenOptions]);
 
   // --- Handlers (Blue) ---
 
-  const employeeIds = useMemo(() => {
-    if (!schedule) return [];
-    return Array.from(new Set(schedule.blocks.map(b => b.employeeId))).sort();
-  }, [schedule]);
+  const employeeIds = blueRoster;
 
-  const blueEmployeeIds = useMemo(() => Array.from({ length: config.numEmployees }, (_, i) => `A${i + 1}`), [config.numEmployees]);
-  const greenEmployeeIds = useMemo(() => Array.from({ length: numGreenEmployees }, (_, i) => `B${i + 1}`), [numGreenEmployees]);
+  const blueEmployeeIds = blueListed;
+  const greenEmployeeIds = greenListed;
 
   useEffect(() => {
     if (!blueEmployeeIds.includes(selectedBlueForSwap)) {
@@ -220,14 +541,133 @@ const App: React.FC = () => {
     }
   }, [greenEmployeeIds, selectedGreenForSwap]);
 
+  // Every step after the show should last at least one show interval, otherwise it leaves a gap
   const applySmartDurations = () => {
     setConfig(prev => ({
       ...prev,
-      durationOcean: Math.max(prev.frequency, prev.durationOcean),
-      durationFloor: Math.max(prev.frequency, 10)
+      cycle: prev.cycle.map((step, i) => i === 0 ? step : { ...step, duration: Math.max(prev.frequency, step.duration) })
+    }));
+  };
+
+  const runOffsetOptimizer = () => {
+    const inputs = optimizerInputs.current;
+    setIsOptimizing(true);
+    // The search yields between employees, so the page keeps repainting while it runs.
+    // Same inputs as the live schedule, so the before/after matches what is on screen.
+    optimizeOffsets(config, blueRoster, employeeOffsets, dayShifts, lunchConfig, pinnedBlocks, certifications, scheduleDay, activeFreeze?.blue ?? null)
+      .then(result => {
+        // Offsets for a roster, shift or day that has since changed would overwrite the current ones
+        if (optimizerInputs.current !== inputs) return;
+        setEmployeeOffsets(result.offsets);
+        setOffsetOptimization(result);
+      })
+      .finally(() => setIsOptimizing(false));
+  };
+
+  // --- Handlers (Blue Overrides) ---
+  const updateEmployeeOffset = (id: string, showIndex: number) => {
+    setEmployeeOffsets(prev => ({ ...prev, [id]: showIndex }));
+  };
+
+  // Dropping a block on another employee pins it there
+  const pinBlock = (employeeId: string, station: string, startTime: string) => {
+    setPinnedBlocks(prev => [
+      ...prev.filter(p => !(p.station === station && p.startTime === startTime)),
+      { station, startTime, employeeId }
+    ]);
+  };
+
+  const toggleBlockPin = (block: TimeBlock) => {
+    const startTime = format(block.startTime, 'HH:mm');
+    setPinnedBlocks(prev => {
+      const exists = prev.find(p => p.station === block.station && p.startTime === startTime && p.employeeId === block.employeeId);
+      if (exists) {
+        return prev.filter(p => p !== exists);
+      }
+      return [...prev, { station: block.station, startTime, employeeId: block.employeeId }];
+    });
+  };
+
+  // --- Handlers (Mid-day Rebalancing) ---
+  const isScheduleToday = scheduleDate === toDateKey(currentTime);
+  const sentHomeAt = (id: string) => activeFreeze?.sentHome.find(s => s.employeeId === id)?.at;
+
+  // Ends someone's day now: everything already started is frozen and both teams replan the rest
+  const sendHomeNow = (empId: string) => {
+    if (!schedule || !isScheduleToday) return;
+    const at = format(currentTime, 'HH:mm');
+    if (!confirm(`Send ${getDisplayName(empId)} home at ${at}? Everything that started before then stays as it is; the rest of the day is replanned.`)) return;
+
+    // An earlier freeze is already part of the schedule on screen, so it carries over
+    const freeze: DayFreeze = {
+      date: scheduleDate,
+      sentHome: [...(activeFreeze?.sentHome ?? []), { employeeId: empId, at }],
+      blue: { before: at, blocks: schedule.blocks },
+      green: { before: at, rotations: greenData.rotations }
+    };
+
+    // Same inputs the effects regenerate from, so the report matches what ends up on screen
+    const shifts = applySentHome(shiftExceptions, freeze.sentHome);
+    const nextBlue = generateSchedule(config, blueRoster, employeeOffsets, shifts, lunchConfig, pinnedBlocks, certifications, scheduleDay, freeze.blue);
+    const generate = greenSolver === 'exact' ? solveGreenSchedule : generateGreenSchedule;
+    const nextGreen = generate(greenRoster, sideTasks, shifts, forcedAssignments, personNames, { ...greenOptions, frozen: freeze.green, seed: greenSeed });
+
+    setRebalanceReport({
+      at,
+      employeeId: empId,
+      blue: diffBlueBlocks(schedule.blocks, nextBlue.blocks, parse(at, 'HH:mm', scheduleDay)),
+      green: diffGreenRotations(greenData.rotations, nextGreen.rotations)
+    });
+    setDayFreeze(freeze);
+  };
+
+  // Back to the plan as if nobody had gone home
+  const unfreezeDay = () => {
+    if (!confirm('Unfreeze the day? Everyone sent home is back on their usual shift and the whole day is regenerated.')) return;
+    setDayFreeze(null);
+    setRebalanceReport(null);
+  };
+
+  // --- Handlers (Cycle Steps) ---
+  const updateCycleStep = (index: number, field: keyof CycleStep, value: any) => {
+    setConfig(prev => ({
+      ...prev,
+      cycle: prev.cycle.map((step, i) => i === index ? { ...step, [field]: value } : step)
     }));
   };
 
+  const moveCycleStep = (index: number, direction: -1 | 1) => {
+    setConfig(prev => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.cycle.length) return prev;
+      const cycle = [...prev.cycle];
+      [cycle[index], cycle[target]] = [cycle[target], cycle[index]];
+      return { ...prev, cycle };
+    });
+  };
+
+  const addCycleStep = () => {
+    setConfig(prev => ({
+      ...prev,
+      cycle: [...prev.cycle, { station: 'New Station', duration: prev.frequency || 20, bufferAfter: 0, color: 'violet' }]
+    }));
+  };
+
+  const removeCycleStep = (index: number) => {
+    setConfig(prev => ({ ...prev, cycle: prev.cycle.filter((_, i) => i !== index) }));
+  };
+
+  // Stations that only certified people may work, across both teams
+  const restrictedStations = useMemo(() => {
+    const list = [
+      ...config.cycle.filter(step => step.requiresCertification).map(step => ({ id: step.station, name: step.station })),
+      ...greenStations.filter(st => st.requiresCertification).map(st => ({ id: st.id, name: st.name }))
+    ];
+    return list.filter((st, i) => list.findIndex(other => other.id === st.id) === i);
+  }, [config.cycle, greenStations]);
+
+  const stationLanes = useMemo(() => schedule ? getStationCoverage(schedule, config) : [], [schedule, config]);
+
   // Filter out issues that are in the past
   const visibleIssues = useMemo(() => {
     if (!schedule) return [];
@@ -255,20 +695,30 @@ const App: React.FC = () => {
     }
   };
 
-  const updateEmployeeShift = (id: string, type: 'start' | 'end', val: string) => {
-    setEmployeeShifts(prev => ({
-      ...prev,
-      [id]: {
-        ...prev[id],
-        [type]: val
-      }
-    }));
+  // --- Handlers (Shifts) ---
+  // A new window starts an hour after the person's last one, or covers a standard day
+  const addShiftException = (employeeId: string) => {
+    const id = Date.now().toString();
+    setShiftExceptions(prev => {
+      const lastEnd = Math.max(-1, ...prev.filter(ex => ex.employeeId === employeeId).map(ex => getMinutes(ex.endTime)).filter(m => !isNaN(m)));
+      const start = lastEnd < 0 ? '09:00' : toTimeString(Math.min(lastEnd + 60, 23 * 60));
+      const end = lastEnd < 0 ? '17:00' : toTimeString(Math.min(lastEnd + 180, 23 * 60 + 59));
+      return [...prev, { id, employeeId, startTime: start, endTime: end }];
+    });
+  };
+
+  const removeShiftException = (id: string) => {
+    setShiftExceptions(prev => prev.filter(t => t.id !== id));
+  };
+
+  const updateShiftException = (id: string, field: 'startTime' | 'endTime', value: string) => {
+    setShiftExceptions(prev => prev.map(t => t.id === id ? { ...t, [field]: value } : t));
   };
 
   // --- Handlers (Green) ---
   const addSideTask = () => {
     const id = Date.now().toString();
-    setSideTasks(prev => [...prev, { id, rotationId: 1, employeeId: 'B1' }]);
+    setSideTasks(prev => [...prev, { id, rotationId: 1, employeeId: greenRoster[0] || '' }]);
   };
 
   const removeSideTask = (id: string) => {
@@ -279,24 +729,140 @@ const App: React.FC = () => {
     setSideTasks(prev => prev.map(t => t.id === id ? { ...t, [field]: value } : t));
   };
 
-  const addShiftException = () => {
-    const id = Date.now().toString();
-    setShiftExceptions(prev => [...prev, { id, employeeId: 'B1', startTime: '10:00', endTime: '14:00' }]);
+  // --- Handlers (Rotation Timetable) ---
+  // Rotation IDs always stay 1..N in timetable order, so rules pointing at later rotations shift down on removal.
+  const addRotation = () => {
+    setRotationsMeta(prev => {
+      const last = prev[prev.length - 1];
+      const startMins = last ? timeToMinutes(last.end) : 9 * 60;
+      const start = isNaN(startMins) ? '09:00' : toTimeString(Math.min(startMins, 23 * 60));
+      const end = isNaN(startMins) ? '10:30' : toTimeString(Math.min(startMins + 90, 23 * 60 + 59));
+      return [...prev, { id: prev.length + 1, start, end }];
+    });
   };
 
-  const removeShiftException = (id: string) => {
-    setShiftExceptions(prev => prev.filter(t => t.id !== id));
+  const removeRotation = (rotationId: number) => {
+    const remap = <T extends { rotationId: number }>(items: T[]) => items
+      .filter(item => item.rotationId !== rotationId)
+      .map(item => item.rotationId > rotationId ? { ...item, rotationId: item.rotationId - 1 } : item);
+
+    setRotationsMeta(prev => prev.filter(r => r.id !== rotationId).map((r, i) => ({ ...r, id: i + 1 })));
+    setSideTasks(prev => remap(prev));
+    setForcedAssignments(prev => remap(prev));
   };
 
-  const updateShiftException = (id: string, field: keyof ShiftException, value: any) => {
-    setShiftExceptions(prev => prev.map(t => t.id === id ? { ...t, [field]: value } : t));
+  const updateRotationTime = (rotationId: number, field: 'start' | 'end', val: string) => {
+    if (/^[0-9:]*$/.test(val) && val.length <= 5) {
+      setRotationsMeta(prev => prev.map(r => r.id === rotationId ? { ...r, [field]: val } : r));
+    }
+  };
+
+  const resetRotations = () => {
+    if (confirm("Reset the rotation timetable to the standard 09:00-17:00 day? Side tasks and locks on removed rotations will be cleared.")) {
+      setRotationsMeta(DEFAULT_ROTATIONS_META);
+      setSideTasks(prev => prev.filter(t => t.rotationId <= DEFAULT_ROTATIONS_META.length));
+      setForcedAssignments(prev => prev.filter(f => f.rotationId <= DEFAULT_ROTATIONS_META.length));
+    }
+  };
+
+  // --- Handlers (Green Rules) ---
+  const updateGreenRule = <K extends GreenRuleId>(id: K, patch: Partial<GreenRules[K]>) => {
+    setGreenRules(prev => ({ ...prev, [id]: { ...prev[id], ...patch } }));
+  };
+
+  const toggleOnceOnlyStation = (stationId: string) => {
+    const current = greenRules.onceOnly.stations;
+    updateGreenRule('onceOnly', {
+      stations: current.includes(stationId) ? current.filter(id => id !== stationId) : [...current, stationId]
+    });
+  };
+
+  const resetGreenRules = () => {
+    if (confirm("Reset every Green rule to the standard policy?")) {
+      setGreenRules(completeGreenRules());
+    }
+  };
+
+  // --- Handlers (Station Catalogue) ---
+  const addStation = () => {
+    const id = `station-${Date.now()}`;
+    setGreenStations(prev => [...prev, {
+      id,
+      name: 'New Station',
+      minStaff: 0,
+      maxStaff: 1,
+      priority: Math.max(0, ...prev.map(st => st.priority)) + 1,
+      countsForRepeat: true,
+      color: 'sky'
+    }]);
+  };
+
+  const removeStation = (id: string) => {
+    setGreenStations(prev => prev.filter(st => st.id !== id));
+    setForcedAssignments(prev => prev.filter(f => f.station !== id));
+  };
+
+  const updateStation = (id: string, field: keyof GreenStationDef, value: any) => {
+    setGreenStations(prev => prev.map(st => {
+      if (st.id !== id) return st;
+      const updated = { ...st, [field]: value };
+      // Keep min <= max whichever one was edited
+      if (updated.maxStaff !== null && updated.minStaff > updated.maxStaff) {
+        if (field === 'minStaff') updated.maxStaff = updated.minStaff;
+        else updated.minStaff = updated.maxStaff;
+      }
+      return updated;
+    }));
+  };
+
+  const resetStations = () => {
+    if (confirm("Reset the station catalogue to the standard Ticket / Greeter / Planetarium / Museum setup?")) {
+      setGreenStations(DEFAULT_GREEN_STATIONS);
+      setForcedAssignments(prev => prev.filter(f => DEFAULT_GREEN_STATIONS.some(st => st.id === f.station)));
+    }
+  };
+
+  const updateGreenLunchTime = (field: 'windowStart' | 'windowEnd', val: string) => {
+    if (/^[0-9:]*$/.test(val) && val.length <= 5) {
+      setGreenLunchConfig(prev => ({ ...prev, [field]: val }));
+    }
   };
 
   const clearForcedAssignments = () => {
     setForcedAssignments([]);
   };
 
-  const toggleForce = (rotationId: number, station: GreenStation, employeeId: string) => {
+  const findGreenCandidates = () => {
+    if (rotationErrors.length > 0 || greenShiftErrors.length > 0) return;
+    const generate = greenSolver === 'exact' ? solveGreenSchedule : generateGreenSchedule;
+    const ranked = generateGreenCandidates(greenRoster, sideTasks, dayShifts, forcedAssignments, personNames, greenOptions, candidateCount, greenSeed, generate);
+    setGreenCandidates(ranked.slice(0, 3));
+  };
+
+  // Re-runs the solver once per hard rule, so only on request; the answer holds until the schedule changes
+  const findGreenBlockingRules = () => {
+    const schedule = greenData;
+    setIsFindingBlockingRules(true);
+    findBlockingRules(greenRoster, sideTasks, dayShifts, forcedAssignments, { ...greenOptions, seed: greenSeed })
+      .then(lines => setBlockingRules({ schedule, lines }))
+      .finally(() => setIsFindingBlockingRules(false));
+  };
+
+  const applyCandidateSeed = (seed: number) => {
+    setGreenSeed(seed);
+    setGreenCandidates(null);
+  };
+
+  // Keeps a candidate exactly by locking every station placement as a manual override
+  const lockCandidate = (candidate: GreenCandidate) => {
+    const locks: ForcedAssignment[] = candidate.schedule.rotations.flatMap(rotation =>
+      greenStations.flatMap(st => (rotation.assignments[st.id] || []).map(employeeId => ({ rotationId: rotation.id, station: st.id, employeeId })))
+    );
+    setGreenSeed(candidate.seed);
+    setForcedAssignments(locks);
+  };
+
+  const toggleForce = (rotationId: number, station: string, employeeId: string) => {
     setForcedAssignments(prev => {
         const exists = prev.find(f => f.rotationId === rotationId && f.employeeId === employeeId && f.station === station);
         if (exists) {
@@ -309,26 +875,41 @@ const App: React.FC = () => {
   // --- Preset Handlers ---
   const getCurrentPresetData = (): PresetData => ({
     config,
-    employeeNames,
-    employeeShifts,
-    numGreenEmployees,
-    greenEmployeeNames,
+    teams: getTeams(people),
     sideTasks,
     shiftExceptions,
     forcedAssignments,
-    teamLocks
+    teamLocks,
+    lunchConfig,
+    greenLunchConfig,
+    rotations: rotationsMeta,
+    stations: greenStations,
+    employeeOffsets,
+    pinnedBlocks,
+    greenSeed,
+    greenSolver,
+    greenRules,
+    greenPresence
   });
 
-  const loadPresetData = (data: PresetData) => {
+  const loadPresetData = (saved: PresetData) => {
+    const { people: directory, data } = completePreset(saved, people);
+    setPeople(directory.map(p => ({ ...p, team: data.teams?.[p.id] ?? null })));
     setConfig(data.config);
-    setEmployeeNames(data.employeeNames);
-    setEmployeeShifts(data.employeeShifts);
-    setNumGreenEmployees(data.numGreenEmployees);
-    setGreenEmployeeNames(data.greenEmployeeNames);
     setSideTasks(data.sideTasks);
     setShiftExceptions(data.shiftExceptions);
     setForcedAssignments(data.forcedAssignments);
     setTeamLocks(data.teamLocks);
+    setLunchConfig(data.lunchConfig!);
+    setGreenLunchConfig(data.greenLunchConfig!);
+    setRotationsMeta(data.rotations!);
+    setGreenStations(data.stations!);
+    setEmployeeOffsets(data.employeeOffsets!);
+    setPinnedBlocks(data.pinnedBlocks!);
+    setGreenSeed(data.greenSeed!);
+    setGreenSolver(data.greenSolver!);
+    setGreenRules(data.greenRules!);
+    setGreenPresence(data.greenPresence!);
   };
 
   const handleSavePreset = () => {
@@ -381,6 +962,135 @@ const App: React.FC = () => {
     }
   };
 
+  // --- Week Planner Handlers ---
+  // Weekdays with saved presets default to their first version, the rest to the settings on screen
+  const getDaySource = (weekday: string): DaySource => {
+    if (weekSources[weekday]) return weekSources[weekday];
+    const versions = Object.keys(presets[weekday] || {}).sort();
+    return versions.length > 0 ? { kind: 'preset', version: versions[0] } : { kind: 'current' };
+  };
+
+  const handleGenerateWeek = () => {
+    const inputs: DayInput[] = [];
+    const missing: string[] = [];
+    let directory = people;
+
+    weekDates.forEach((date, i) => {
+      const weekday = WEEKDAYS[i];
+      const source = getDaySource(weekday);
+      if (source.kind === 'closed') return;
+
+      if (source.kind === 'current') {
+        inputs.push({ date, label: 'Current settings', data: getCurrentPresetData() });
+        return;
+      }
+
+      const saved = presets[weekday]?.[source.version];
+      if (!saved) {
+        missing.push(`${weekday} ${source.version}`);
+        return;
+      }
+      const completed = completePreset(saved, directory);
+      directory = completed.people;
+      inputs.push({ date, label: `${weekday} ${source.version}`, data: completed.data });
+    });
+
+    // Legacy presets can name people the directory does not know yet: add them, off both teams,
+    // so the week's rosters find them. Everyone already listed keeps their current team.
+    const added = directory.filter(p => !people.some(q => q.id === p.id)).map(p => ({ ...p, team: null }));
+    const weekPeople = [...people, ...added];
+    if (added.length > 0) setPeople(weekPeople);
+
+    if (missing.length > 0) {
+      alert(`Preset not found, left closed: ${missing.join(', ')}`);
+    }
+
+    // Published days before the week seed the fairness ledger
+    loadHistoryBefore(weekDates[0])
+      .catch(e => {
+        console.warn('Failed to read the schedule archive', e);
+        return [];
+      })
+      .then(history => {
+        setWeekDays(generateDays(inputs, weekPeople, history, absences));
+        setSelectedWeekDate(null);
+      });
+  };
+
+  // --- Archive Handlers ---
+  const handlePublishDays = (days: DaySchedule[]) => {
+    const replaced = days.filter(d => archiveEntries.some(e => e.date === d.date)).map(d => d.date);
+    if (replaced.length > 0 && !confirm(`Replace the published schedule for ${replaced.join(', ')}?`)) return;
+
+    const publishedAt = new Date().toISOString();
+    Promise.all(days.map(day => publishDay({ ...day, publishedAt, employeeNames: personNames })))
+      .then(() => {
+        refreshArchive();
+        // Show the fresh copy if one of these days is open in the archive
+        if (selectedArchiveDate && days.some(d => d.date === selectedArchiveDate)) {
+          loadArchivedDay(selectedArchiveDate)
+            .then(setArchivedDay)
+            .catch(e => alert(`Could not reload ${selectedArchiveDate} from the archive: ${e}`));
+        }
+        alert(`Published ${days.map(d => d.date).join(', ')}`);
+      })
+      .catch(e => alert(`Publishing failed: ${e}`));
+  };
+
+  // The selected preset, as saved, is what is on screen: nothing was edited since it was loaded or saved
+  const matchesSelectedPreset = (): boolean => {
+    const saved = presets[currentWeekday]?.[currentVersion];
+    if (!saved) return false;
+    const { data } = completePreset(saved, people);
+    return Object.entries(getCurrentPresetData())
+      .every(([key, value]) => JSON.stringify(value) === JSON.stringify(data[key as keyof PresetData]));
+  };
+
+  // Archive entries are named by their date; the preset only when the day is still exactly that preset
+  const getPublishLabel = (): string => {
+    const weekday = format(scheduleDay, 'EEEE');
+    if (!matchesSelectedPreset()) return weekday;
+    return currentWeekday === weekday ? `${weekday} ${currentVersion}` : `${weekday} (${currentWeekday} ${currentVersion})`;
+  };
+
+  // Publishes what is on screen for the selected date
+  const handlePublishCurrentDay = () => {
+    if (!schedule || !scheduleDate) return;
+    handlePublishDays([{
+      date: scheduleDate,
+      label: getPublishLabel(),
+      blueRoster,
+      greenRoster,
+      blueOnLeave: blueListed.filter(id => !blueRoster.includes(id)),
+      greenOnLeave: greenListed.filter(id => !greenRoster.includes(id)),
+      config,
+      stations: greenStations,
+      blue: schedule,
+      green: greenData
+    }]);
+  };
+
+  const handleBuildFairnessReport = () => {
+    loadArchiveRange(reportFrom, reportTo)
+      .then(days => {
+        // Latest catalogue entry wins for stations that changed over the range
+        const stations = Object.values(Object.fromEntries(days.flatMap(d => d.stations).map(st => [st.id, st])));
+        const names = Object.assign({}, ...days.map(d => d.employeeNames), personNames);
+        setFairnessReport({ tally: tallyRange(days, reportFrom, reportTo), stations, names, dayCount: days.length });
+      })
+      .catch(e => alert(`Could not build the report: ${e}`));
+  };
+
+  const handleDeleteArchivedDay = (date: string) => {
+    if (!confirm(`Delete the published schedule for ${date}? This cannot be undone.`)) return;
+    deleteArchivedDay(date)
+      .then(() => {
+        setSelectedArchiveDate(null);
+        refreshArchive();
+      })
+      .catch(e => alert(`Delete failed: ${e}`));
+  };
+
   // --- Reset Handler ---
   const handleResetSystem = () => {
     if (window.confirm("Are you sure you want to RESTART the system? \n\nThis will clear all staff names, shifts, and settings to default.")) {
@@ -388,17 +1098,25 @@ const App: React.FC = () => {
         Object.values(STORAGE_KEYS).forEach(key => localStorage.removeItem(key));
 
         // 2. Reset React State immediately to defaults
+        setPeople(seedDirectory(EMPLOYEE_NAMES_LIST));
         setConfig(DEFAULT_CONFIG);
-        setEmployeeNames({});
-        setEmployeeShifts({});
         setEmployeeOffsets({});
+        setPinnedBlocks([]);
+        setLunchConfig(DEFAULT_LUNCH_CONFIG);
         setSchedule(null);
         
-        setNumGreenEmployees(6);
-        setGreenEmployeeNames({});
         setSideTasks([]);
         setShiftExceptions([]);
+        setAbsences([]);
+        setDayFreeze(null);
         setForcedAssignments([]);
+        setGreenLunchConfig(DEFAULT_GREEN_LUNCH_CONFIG);
+        setRotationsMeta(DEFAULT_ROTATIONS_META);
+        setGreenStations(DEFAULT_GREEN_STATIONS);
+        setGreenSeed(DEFAULT_GREEN_SEED);
+        setGreenSolver(DEFAULT_GREEN_SOLVER);
+        setGreenRules(completeGreenRules());
+        setGreenPresence(DEFAULT_PRESENCE_THRESHOLD);
         
         // 3. Optional: Reload to be absolutely sure
         setTimeout(() => window.location.reload(), 100);
@@ -440,9 +1158,13 @@ const App: React.FC = () => {
         const data = JSON.parse(content);
 
         if (confirm("This will overwrite your current configuration with the data from the file. Are you sure?")) {
+            // Backups from before the directory are migrated on reload
+            if (!data[STORAGE_KEYS.PEOPLE]) {
+              localStorage.removeItem(STORAGE_KEYS.PEOPLE);
+            }
             Object.keys(data).forEach(key => {
               // Only import keys that match our known storage keys to avoid garbage
-              if (Object.values(STORAGE_KEYS).includes(key)) {
+              if (Object.values(STORAGE_KEYS).includes(key) || Object.values(LEGACY_STORAGE_KEYS).includes(key)) {
                  localStorage.setItem(key, JSON.stringify(data[key]));
               }
             });
@@ -460,7 +1182,7 @@ const App: React.FC = () => {
   };
 
   // --- Drag and Drop Handlers (Green) ---
-  const handleDragStart = (e: React.DragEvent, employeeId: string, rotationId: number, currentStation: GreenStation) => {
+  const handleDragStart = (e: React.DragEvent, employeeId: string, rotationId: number, currentStation: string) => {
     e.dataTransfer.setData('application/json', JSON.stringify({ employeeId, rotationId, currentStation }));
     e.dataTransfer.effectAllowed = 'move';
     document.body.classList.add('dragging-active');
@@ -475,12 +1197,15 @@ const App: React.FC = () => {
     e.dataTransfer.dropEffect = 'move';
   };
 
-  const handleDrop = (e: React.DragEvent, targetRotationId: number, targetStation: GreenStation) => {
+  const handleDrop = (e: React.DragEvent, targetRotationId: number, targetStation: string) => {
     e.preventDefault();
     try {
       const data = JSON.parse(e.dataTransfer.getData('application/json'));
       const { employeeId, rotationId } = data;
 
+      // Only catalogue stations accept drops
+      if (!greenStations.some(st => st.id === targetStation)) return;
+
       if (rotationId === targetRotationId) {
         setForcedAssignments(prev => {
           const clean = prev.filter(f => !(f.rotationId === rotationId && f.employeeId === employeeId));
@@ -503,63 +1228,29 @@ const App: React.FC = () => {
     }));
   };
 
-  const swapConfigs = (id1: string, id2: string) => {
-    // 1. Swap Forced Assignments
-    setForcedAssignments(prev => prev.map(f => {
-      if (f.employeeId === id1) return { ...f, employeeId: id2 };
-      if (f.employeeId === id2) return { ...f, employeeId: id1 };
-      return f;
-    }));
-
-    // 2. Swap Side Tasks
-    setSideTasks(prev => prev.map(t => {
-      if (t.employeeId === id1) return { ...t, employeeId: id2 };
-      if (t.employeeId === id2) return { ...t, employeeId: id1 };
-      return t;
-    }));
-
-    // 3. Swap Shift Exceptions
-    setShiftExceptions(prev => prev.map(e => {
-      if (e.employeeId === id1) return { ...e, employeeId: id2 };
-      if (e.employeeId === id2) return { ...e, employeeId: id1 };
-      return e;
-    }));
+  // Swapping moves the people themselves: they change team and trade roster positions,
+  // and everything keyed by person (shifts, side tasks, locks) goes with them
+  const swapPeople = (list: Person[], blueId: string, greenId: string): Person[] => {
+    const blueIndex = list.findIndex(p => p.id === blueId);
+    const greenIndex = list.findIndex(p => p.id === greenId);
+    if (blueIndex < 0 || greenIndex < 0) return list;
+
+    const updated = [...list];
+    updated[blueIndex] = { ...list[greenIndex], team: TeamType.BLUE };
+    updated[greenIndex] = { ...list[blueIndex], team: TeamType.GREEN };
+    return updated;
   };
 
   const swapNames = (blueId: string, greenId: string) => {
     if (!blueId || !greenId) return;
     if (teamLocks.blue[blueId] || teamLocks.green[greenId]) return;
 
-    swapConfigs(blueId, greenId);
-
-    setEmployeeNames(prev => {
-      const updated = { ...prev };
-      const greenName = greenEmployeeNames[greenId];
-      if (greenName) {
-        updated[blueId] = greenName;
-      } else {
-        delete updated[blueId];
-      }
-      return updated;
-    });
-
-    setGreenEmployeeNames(prev => {
-      const updated = { ...prev };
-      const blueName = employeeNames[blueId];
-      if (blueName) {
-        updated[greenId] = blueName;
-      } else {
-        delete updated[greenId];
-      }
-      return updated;
-    });
+    setPeople(prev => swapPeople(prev, blueId, greenId));
   };
 
   const swapEntireTeams = () => {
-    const newBlueNames = { ...employeeNames };
-    const newGreenNames = { ...greenEmployeeNames };
-
     const maxPairs = Math.min(blueEmployeeIds.length, greenEmployeeIds.length);
+    let updated = people;
 
     for (let i = 0; i < maxPairs; i++) {
       const blueId = blueEmployeeIds[i];
@@ -567,26 +1258,10 @@ const App: React.FC = () => {
 
       if (teamLocks.blue[blueId] || teamLocks.green[greenId]) continue;
 
-      swapConfigs(blueId, greenId);
-
-      const blueName = newBlueNames[blueId];
-      const greenName = newGreenNames[greenId];
-
-      if (greenName) {
-        newBlueNames[blueId] = greenName;
-      } else {
-        delete newBlueNames[blueId];
-      }
-
-      if (blueName) {
-        newGreenNames[greenId] = blueName;
-      } else {
-        delete newGreenNames[greenId];
-      }
+      updated = swapPeople(updated, blueId, greenId);
     }
 
-    setEmployeeNames(newBlueNames);
-    setGreenEmployeeNames(newGreenNames);
+    setPeople(updated);
   };
 
   const swapSelectedEmployees = () => {
@@ -594,21 +1269,118 @@ const App: React.FC = () => {
     swapNames(selectedBlueForSwap, selectedGreenForSwap);
   };
 
-  const getDisplayName = (id: string, team: 'blue' | 'green') => {
-    const name = team === 'blue' ? employeeNames[id] : greenEmployeeNames[id];
-    return name || id;
+  // --- Handlers (Directory) ---
+  const updatePerson = (id: string, field: keyof Person, value: any) => {
+    setPeople(prev => prev.map(p => p.id === id ? { ...p, [field]: value } : p));
   };
 
+  const toggleCertification = (id: string, station: string) => {
+    setPeople(prev => prev.map(p => {
+      if (p.id !== id) return p;
+      const current = p.certifications || [];
+      return {
+        ...p,
+        certifications: current.includes(station) ? current.filter(c => c !== station) : [...current, station]
+      };
+    }));
+  };
+
+  // New time off starts on the day on screen
+  const addAbsence = (employeeId: string) => {
+    const id = Date.now().toString();
+    setAbsences(prev => [...prev, { id, employeeId, from: scheduleDate, to: scheduleDate, reason: 'vacation' }]);
+  };
+
+  const updateAbsence = (id: string, field: 'from' | 'to' | 'reason', value: string) => {
+    setAbsences(prev => prev.map(a => a.id === id ? { ...a, [field]: value } : a));
+  };
+
+  const removeAbsence = (id: string) => {
+    setAbsences(prev => prev.filter(a => a.id !== id));
+  };
+
+  const addPerson = () => {
+    setPeople(prev => [...prev, { id: nextPersonId(prev), name: 'New Person', team: null, note: '' }]);
+  };
+
+  const removePerson = (id: string) => {
+    const person = people.find(p => p.id === id);
+    if (!person || !confirm(`Remove ${person.name} from the directory? Their shifts, time off, side tasks and locks are removed too.`)) return;
+
+    setPeople(prev => prev.filter(p => p.id !== id));
+    setEmployeeOffsets(prev => { const { [id]: _, ...rest } = prev; return rest; });
+    setPinnedBlocks(prev => prev.filter(p => p.employeeId !== id));
+    setSideTasks(prev => prev.filter(t => t.employeeId !== id));
+    setShiftExceptions(prev => prev.filter(e => e.employeeId !== id));
+    setAbsences(prev => prev.filter(a => a.employeeId !== id));
+    setForcedAssignments(prev => prev.filter(f => f.employeeId !== id));
+    setTeamLocks(prev => {
+      const { [id]: _b, ...blue } = prev.blue;
+      const { [id]: _g, ...green } = prev.green;
+      return { blue, green };
+    });
+  };
+
+  const getDisplayName = (id: string) => personNames[id] || id;
+
   // --- Render Helpers ---
-  const getGreenEmployeeName = (id: string) => greenEmployeeNames[id] || id;
+  // Marks someone listed on a team who is away on the day on screen
+  const renderLeaveBadge = (id: string) => {
+    const absence = getAbsence(absences, id, scheduleDate);
+    if (!absence) return null;
+    return (
+      <span className="px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 text-[9px] font-bold uppercase tracking-wide shrink-0" title={`Away ${absence.from} to ${absence.to}`}>
+        {ABSENCE_REASON_LABELS[absence.reason]}
+      </span>
+    );
+  };
+
+  // Sends someone on today's roster home from now on, or shows when they left
+  const renderSendHome = (id: string) => {
+    if (getAbsence(absences, id, scheduleDate)) return null;
+    const at = sentHomeAt(id);
+    if (at) {
+      return (
+        <span className="px-1.5 py-0.5 rounded bg-rose-100 text-rose-700 text-[9px] font-bold uppercase tracking-wide shrink-0" title="Sent home; the day is frozen before this time">
+          Home {at}
+        </span>
+      );
+    }
+    return (
+      <button
+        onClick={() => sendHomeNow(id)}
+        disabled={!isScheduleToday}
+        className="text-slate-300 hover:text-amber-600 transition-colors shrink-0 disabled:opacity-40 disabled:hover:text-slate-300"
+        title={isScheduleToday ? 'Send home now: keep the day so far, replan the rest' : 'Only for the schedule of today'}
+      >
+        <LogOut size={14} />
+      </button>
+    );
+  };
+
+  // Puts someone from the directory on a team; people on the other team move over
+  const renderRosterAdder = (team: TeamType) => (
+    <select
+      value=""
+      onChange={(e) => e.target.value && updatePerson(e.target.value, 'team', team)}
+      className="w-full px-3 py-2 bg-white border border-dashed border-slate-300 rounded-lg text-xs font-bold text-slate-500 focus:ring-2 focus:ring-slate-300"
+    >
+      <option value="">+ Add to {team} Team</option>
+      {people.filter(p => p.team !== team).map(p => (
+        <option key={p.id} value={p.id}>{p.name}{p.team ? ` (${p.team})` : ''}</option>
+      ))}
+    </select>
+  );
+
+  const getGreenEmployeeName = (id: string) => personNames[id] || id;
 
   const isRotationPast = (rotationId: number) => {
-     const meta = ROTATIONS_META.find(r => r.id === rotationId);
+     const meta = rotationsMeta.find(r => r.id === rotationId);
      if (!meta) return false;
      
-     // Parse end time for today
+     // Parse end time on the schedule's day
      const [endH, endM] = meta.end.split(':').map(Number);
-     const endDate = startOfDay(new Date());
+     const endDate = startOfDay(scheduleDay);
      endDate.setHours(endH, endM, 0, 0);
 
      return isAfter(currentTime, endDate);
@@ -621,57 +1393,38 @@ const App: React.FC = () => {
         // Hide alerts for past rotations
         return !isRotationPast(n.rotationId);
      });
-  }, [greenData.notifications, currentTime]);
+  }, [greenData.notifications, currentTime, rotationsMeta]);
 
-  const getStationStyle = (station: GreenStation) => {
+  const getStationStyle = (station: string) => {
     switch (station) {
-      case GreenStation.TICKET: return 'bg-amber-50 text-amber-900 border-amber-200';
-      case GreenStation.GREETER: return 'bg-orange-50 text-orange-900 border-orange-200';
-      case GreenStation.PLANETARIUM: return 'bg-emerald-50 text-emerald-900 border-emerald-200';
-      case GreenStation.MUSEUM: return 'bg-indigo-50 text-indigo-900 border-indigo-200';
       case GreenStation.SIDE_TASK: return 'bg-slate-50 text-slate-600 border-slate-200 italic';
       case GreenStation.OFF_SHIFT: return 'bg-slate-50 text-slate-400 border-slate-100 border-dashed';
-      default: return 'bg-white';
     }
+    const def = greenStations.find(st => st.id === station);
+    return def ? (GREEN_STATION_PALETTE[def.color] || GREEN_STATION_PALETTE.slate).zone : 'bg-white';
   };
 
-  const getStationLabelColor = (station: GreenStation) => {
-    switch (station) {
-      case GreenStation.TICKET: return 'bg-amber-100 text-amber-800';
-      case GreenStation.GREETER: return 'bg-orange-100 text-orange-800';
-      case GreenStation.PLANETARIUM: return 'bg-emerald-100 text-emerald-800';
-      case GreenStation.MUSEUM: return 'bg-indigo-100 text-indigo-800';
-      default: return 'bg-slate-100 text-slate-600';
-    }
-  };
-
-  const getShiftNotice = (empId: string, rotTimeRange: string) => {
-    const exception = shiftExceptions.find(e => e.employeeId === empId);
-    if (!exception) return null;
+  // Catalogue name for a station ID; side work and off shift are named by their ID
+  const getGreenStationName = (station: string | null) =>
+    station === null ? 'not in' : greenStations.find(st => st.id === station)?.name || station;
 
-    const [rotStart, rotEnd] = rotTimeRange.split(' - ');
-    const [rsH, rsM] = rotStart.split(':').map(Number);
-    const [reH, reM] = rotEnd.split(':').map(Number);
-    const rotStartMins = rsH * 60 + rsM;
-    const rotEndMins = reH * 60 + reM;
+  const getStationLabelColor = (station: string) => {
+    const def = greenStations.find(st => st.id === station);
+    return (def && GREEN_STATION_PALETTE[def.color] || GREEN_STATION_PALETTE.slate).label;
+  };
 
-    const [ssH, ssM] = exception.startTime.split(':').map(Number);
-    const [seH, seM] = exception.endTime.split(':').map(Number);
-    const shiftStartMins = ssH * 60 + ssM;
-    const shiftEndMins = seH * 60 + seM;
+  // Exact minutes someone on a split or custom shift is out during a rotation they work
+  const getShiftNotice = (empId: string, rotationId: number) => {
+    const meta = rotationsMeta.find(r => r.id === rotationId);
+    if (!meta) return null;
 
-    if (shiftEndMins < rotEndMins && shiftEndMins > rotStartMins) {
-      return `Until ${exception.endTime}`;
-    }
-    if (shiftStartMins > rotStartMins && shiftStartMins < rotEndMins) {
-      return `From ${exception.startTime}`;
-    }
-    return null;
+    const missed = getMissedRanges(dayShifts, empId, timeToMinutes(meta.start), timeToMinutes(meta.end));
+    return missed.length > 0 ? `Out ${formatMissed(missed)}` : null;
   };
 
-  const renderGreenEmployee = (id: string, rotTimeRange: string, rotationId: number, station: GreenStation) => {
+  const renderGreenEmployee = (id: string, rotationId: number, station: string) => {
     const name = getGreenEmployeeName(id);
-    const notice = getShiftNotice(id, rotTimeRange);
+    const notice = getShiftNotice(id, rotationId);
     const isForced = forcedAssignments.some(f => f.rotationId === rotationId && f.employeeId === id && f.station === station);
 
     return (
@@ -695,7 +1448,13 @@ const App: React.FC = () => {
           <div className="text-slate-300 group-hover:text-slate-400 cursor-grab flex-shrink-0">
             <GripHorizontal size={14} />
           </div>
-          <span className="truncate font-bold text-xs text-slate-700 leading-tight">{name}</span>
+          <button
+            onClick={() => setExplainedPlacement({ rotationId, employeeId: id, station, schedule: greenData, stations: greenStations, names: personNames })}
+            className="truncate font-bold text-xs text-slate-700 leading-tight hover:underline text-left"
+            title="Why here?"
+          >
+            {name}
+          </button>
         </div>
         
         <div className="flex items-center gap-1.5 flex-shrink-0 ml-2">
@@ -719,11 +1478,13 @@ const App: React.FC = () => {
     );
   };
 
-  const StationDropZone = ({ children, rotationId, station, className, isMissing }: any) => {
+  const StationDropZone = ({ children, rotationId, station, className, isMissing, isFull }: any) => {
     const [isOver, setIsOver] = useState(false);
     let statusClass = '';
     if (isOver) {
-      statusClass = 'ring-2 ring-emerald-400 ring-offset-1 bg-emerald-50 scale-[1.01]';
+      statusClass = isFull
+        ? 'ring-2 ring-amber-400 ring-offset-1 bg-amber-50 scale-[1.01]'
+        : 'ring-2 ring-emerald-400 ring-offset-1 bg-emerald-50 scale-[1.01]';
     } else if (isMissing) {
       statusClass = 'ring-1 ring-red-300 bg-red-50'; 
     }
@@ -853,13 +1614,28 @@ const App: React.FC = () => {
                 <h2 className="text-xl font-bold text-slate-800">Presets & Versions</h2>
              </div>
              <div className="flex flex-wrap items-center gap-3">
+                {/* Date */}
+                <input
+                  type="date"
+                  value={scheduleDate}
+                  onChange={(e) => {
+                    setScheduleDate(e.target.value);
+                    if (e.target.value) setCurrentWeekday(format(fromDateKey(e.target.value), 'EEEE'));
+                  }}
+                  className="px-4 py-2 rounded-lg border border-slate-300 text-sm font-bold text-slate-700 bg-white shadow-sm focus:ring-2 focus:ring-blue-500"
+                />
+
+                <button onClick={handlePublishCurrentDay} disabled={!schedule || !scheduleDate} className="inline-flex items-center gap-1.5 px-4 py-2 rounded-lg bg-slate-800 text-white text-xs font-bold hover:bg-slate-700 transition-colors disabled:opacity-40" title="Save this day's Blue and Green schedules to the archive">
+                  <Archive size={14} /> Publish
+                </button>
+
                 {/* Weekday Selector */}
                 <select
                   value={currentWeekday}
                   onChange={(e) => setCurrentWeekday(e.target.value)}
                   className="px-4 py-2 rounded-lg border border-slate-300 text-sm font-bold text-slate-700 bg-white shadow-sm focus:ring-2 focus:ring-blue-500"
                 >
-                  {['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'].map(day => (
+                  {WEEKDAYS.map(day => (
                     <option key={day} value={day}>{day}</option>
                   ))}
                 </select>
@@ -890,8 +1666,67 @@ const App: React.FC = () => {
                 )}
              </div>
           </div>
+          {leaveWarnings.length > 0 && (
+            <div className="mt-4 p-3 rounded-lg bg-amber-50 border border-amber-200 text-amber-800 text-xs space-y-1">
+              {leaveWarnings.map(warning => (
+                <p key={warning} className="flex items-start gap-1.5"><AlertTriangle size={12} className="mt-0.5 shrink-0" /> {warning}</p>
+              ))}
+            </div>
+          )}
         </div>
 
+        {/* Mid-day Rebalancing */}
+        {activeFreeze && (
+          <div className="bg-white rounded-2xl shadow-sm border border-amber-200 p-6 mb-8">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+              <div>
+                <p className="text-[10px] font-bold uppercase tracking-widest text-amber-500">Day Under Way</p>
+                <h2 className="text-xl font-bold text-slate-800">Frozen before {activeFreeze.blue.before}</h2>
+                <p className="text-sm text-slate-500">
+                  Sent home: {activeFreeze.sentHome.map(s => `${getDisplayName(s.employeeId)} (${s.at})`).join(', ')}. Earlier blocks and rotations stay exactly as they were.
+                </p>
+              </div>
+              <button onClick={unfreezeDay} className="inline-flex items-center gap-1.5 px-4 py-2 rounded-lg bg-white text-slate-600 text-xs font-bold hover:bg-slate-50 transition-colors border border-slate-200">
+                <Unlock size={14} /> Unfreeze
+              </button>
+            </div>
+            {rebalanceReport && (
+              <div className="mt-4 p-4 rounded-lg bg-amber-50 border border-amber-200 text-xs text-slate-700 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="font-bold text-amber-800">Changes after {getDisplayName(rebalanceReport.employeeId)} left at {rebalanceReport.at}</span>
+                  <button onClick={() => setRebalanceReport(null)} className="text-amber-400 hover:text-amber-700" title="Dismiss"><X size={14} /></button>
+                </div>
+                {rebalanceReport.blue.length === 0 && rebalanceReport.green.length === 0 && (
+                  <p className="text-slate-500 italic">Nobody else's day changes.</p>
+                )}
+                {rebalanceReport.blue.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="text-[10px] font-bold uppercase tracking-wider text-blue-600">Blue</p>
+                    {rebalanceReport.blue.map(change => (
+                      <p key={change.employeeId}>
+                        <span className="font-bold">{getDisplayName(change.employeeId)}</span>
+                        {change.removed.length > 0 && <span className="text-rose-600"> no longer {change.removed.map(b => `${b.station} ${format(b.startTime, 'HH:mm')}`).join(', ')}</span>}
+                        {change.removed.length > 0 && change.added.length > 0 && ';'}
+                        {change.added.length > 0 && <span className="text-emerald-700"> now {change.added.map(b => `${b.station} ${format(b.startTime, 'HH:mm')}`).join(', ')}</span>}
+                      </p>
+                    ))}
+                  </div>
+                )}
+                {rebalanceReport.green.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="text-[10px] font-bold uppercase tracking-wider text-emerald-600">Green · {rebalanceReport.green.length} placement{rebalanceReport.green.length === 1 ? '' : 's'}</p>
+                    {rebalanceReport.green.map(change => (
+                      <p key={`${change.rotationId}-${change.employeeId}`}>
+                        Rotation {change.rotationId}: <span className="font-bold">{getDisplayName(change.employeeId)}</span> {getGreenStationName(change.from)} <ArrowRight size={10} className="inline" /> {getGreenStationName(change.to)}
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Team Swap Utility */}
         <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 mb-8">
           <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
@@ -936,7 +1771,7 @@ const App: React.FC = () => {
               >
                 {blueEmployeeIds.map(id => (
                   <option key={id} value={id} disabled={!!teamLocks.blue[id]}>
-                    {getDisplayName(id, 'blue')} {teamLocks.blue[id] ? '(Locked)' : ''}
+                    {getDisplayName(id)} {teamLocks.blue[id] ? '(Locked)' : ''}
                   </option>
                 ))}
               </select>
@@ -948,7 +1783,7 @@ const App: React.FC = () => {
                     className={`px-2 py-1 rounded-lg text-xs font-bold border flex items-center gap-1 transition-colors ${teamLocks.blue[id] ? 'bg-slate-800 text-white border-slate-800' : 'bg-slate-100 text-slate-600 border-slate-200 hover:bg-slate-200'}`}
                   >
                     {teamLocks.blue[id] ? <Lock size={12} /> : <Unlock size={12} />}
-                    {getDisplayName(id, 'blue')}
+                    {getDisplayName(id)}
                   </button>
                 ))}
               </div>
@@ -963,7 +1798,7 @@ const App: React.FC = () => {
               >
                 {greenEmployeeIds.map(id => (
                   <option key={id} value={id} disabled={!!teamLocks.green[id]}>
-                    {getDisplayName(id, 'green')} {teamLocks.green[id] ? '(Locked)' : ''}
+                    {getDisplayName(id)} {teamLocks.green[id] ? '(Locked)' : ''}
                   </option>
                 ))}
               </select>
@@ -975,7 +1810,7 @@ const App: React.FC = () => {
                     className={`px-2 py-1 rounded-lg text-xs font-bold border flex items-center gap-1 transition-colors ${teamLocks.green[id] ? 'bg-emerald-700 text-white border-emerald-700' : 'bg-emerald-50 text-emerald-700 border-emerald-200 hover:bg-emerald-100'}`}
                   >
                     {teamLocks.green[id] ? <Lock size={12} /> : <Unlock size={12} />}
-                    {getDisplayName(id, 'green')}
+                    {getDisplayName(id)}
                   </button>
                 ))}
               </div>
@@ -988,7 +1823,7 @@ const App: React.FC = () => {
                 </div>
                 <div>
                   <p className="text-sm font-bold text-slate-800">Lock before you swap</p>
-                  <p className="text-xs text-slate-500 leading-snug">Locks freeze people in place for both single and full-team swaps. Names move with their slot so your math stays intact.</p>
+                  <p className="text-xs text-slate-500 leading-snug">Locks freeze people in place for both single and full-team swaps. People take their own shifts, side tasks and locks with them to the other team.</p>
                 </div>
               </div>
               <div className="text-[11px] text-slate-500 space-y-1">
@@ -1003,6 +1838,299 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        {/* Employee Directory */}
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 mb-8">
+          <div className="flex items-center justify-between gap-3">
+            <button onClick={() => setShowDirectory(!showDirectory)} className="flex items-center gap-3 text-left">
+              <BookUser size={20} className="text-slate-400" />
+              <div>
+                <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">Employee Directory</p>
+                <h2 className="text-xl font-bold text-slate-800">{people.length} people · {blueListed.length} Blue · {greenListed.length} Green</h2>
+              </div>
+              {showDirectory ? <ChevronUp size={18} className="text-slate-400" /> : <ChevronDown size={18} className="text-slate-400" />}
+            </button>
+            {showDirectory && (
+              <button onClick={addPerson} className="inline-flex items-center gap-1.5 px-3 py-2 rounded-lg bg-slate-100 text-slate-700 text-xs font-bold hover:bg-slate-200 transition-colors">
+                <Plus size={14} /> Add Person
+              </button>
+            )}
+          </div>
+          {showDirectory && (
+            <div className="mt-5 grid grid-cols-1 lg:grid-cols-2 gap-2 max-h-[420px] overflow-y-auto pr-2 custom-scrollbar">
+              {people.map(person => (
+                <div key={person.id} className="p-2 rounded-lg bg-slate-50 border border-slate-100 text-xs space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono font-bold text-slate-400 w-9 shrink-0 text-center">{person.id}</span>
+                  <input type="text" value={person.name} onChange={(e) => updatePerson(person.id, 'name', e.target.value)} className="w-32 shrink-0 bg-white border border-slate-300 rounded p-1.5 font-bold text-slate-700" />
+                  <select
+                    value={person.team ?? ''}
+                    onChange={(e) => updatePerson(person.id, 'team', e.target.value || null)}
+                    className={`shrink-0 border rounded p-1.5 font-bold ${person.team === TeamType.BLUE ? 'bg-blue-50 border-blue-200 text-blue-700' : person.team === TeamType.GREEN ? 'bg-emerald-50 border-emerald-200 text-emerald-700' : 'bg-white border-slate-300 text-slate-400'}`}
+                  >
+                    <option value="">Off roster</option>
+                    <option value={TeamType.BLUE}>Blue</option>
+                    <option value={TeamType.GREEN}>Green</option>
+                  </select>
+                  <input type="text" placeholder="Contact note" value={person.note} onChange={(e) => updatePerson(person.id, 'note', e.target.value)} className="flex-1 min-w-0 bg-white border border-slate-300 rounded p-1.5 text-slate-600" />
+                  <button onClick={() => removePerson(person.id)} className="text-rose-400 hover:text-rose-600 shrink-0"><Trash2 size={14} /></button>
+                </div>
+                {restrictedStations.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-1.5 pl-11">
+                    <span className="text-[9px] font-bold text-slate-400 uppercase tracking-wide">Certified</span>
+                    {restrictedStations.map(st => {
+                      const certified = (person.certifications || []).includes(st.id);
+                      return (
+                        <button
+                          key={st.id}
+                          onClick={() => toggleCertification(person.id, st.id)}
+                          className={`px-2 py-0.5 rounded-full text-[10px] font-bold border transition-colors ${certified ? 'bg-slate-800 text-white border-slate-800' : 'bg-white text-slate-400 border-slate-200 hover:border-slate-400'}`}
+                        >
+                          {st.name}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+                <div className="flex flex-wrap items-center gap-1.5 pl-11">
+                  <span className="text-[9px] font-bold text-slate-400 uppercase tracking-wide">Time Off</span>
+                  {absences.filter(a => a.employeeId === person.id).map(a => (
+                    <span key={a.id} className="inline-flex items-center gap-1 bg-white border border-slate-200 rounded px-1 py-0.5">
+                      <input type="date" value={a.from} onChange={(e) => updateAbsence(a.id, 'from', e.target.value)} className="text-[10px] text-slate-600 bg-transparent" />
+                      <span className="text-slate-300">–</span>
+                      <input type="date" value={a.to} onChange={(e) => updateAbsence(a.id, 'to', e.target.value)} className="text-[10px] text-slate-600 bg-transparent" />
+                      <select value={a.reason} onChange={(e) => updateAbsence(a.id, 'reason', e.target.value as AbsenceReason)} className="text-[10px] font-bold text-slate-600 bg-transparent">
+                        {(Object.keys(ABSENCE_REASON_LABELS) as AbsenceReason[]).map(reason => <option key={reason} value={reason}>{ABSENCE_REASON_LABELS[reason]}</option>)}
+                      </select>
+                      <button onClick={() => removeAbsence(a.id)} className="text-rose-300 hover:text-rose-600"><X size={10} /></button>
+                    </span>
+                  ))}
+                  <button onClick={() => addAbsence(person.id)} className="px-2 py-0.5 rounded-full text-[10px] font-bold border border-dashed border-slate-300 text-slate-400 hover:border-slate-400 hover:text-slate-600 transition-colors">+ Add</button>
+                </div>
+                </div>
+              ))}
+            </div>
+          )}
+          {showDirectory && absenceErrors.length > 0 && (
+            <div className="mt-3 p-3 rounded-lg bg-red-50 border border-red-200 text-red-700 text-[11px] space-y-1">
+              {absenceErrors.map(err => (
+                <p key={err} className="flex items-start gap-1.5"><AlertCircle size={12} className="mt-0.5 shrink-0" /> {err}</p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Week Planner */}
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 mb-8">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <button onClick={() => setShowWeek(!showWeek)} className="flex items-center gap-3 text-left">
+              <CalendarDays size={20} className="text-slate-400" />
+              <div>
+                <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">Week Planner</p>
+                <h2 className="text-xl font-bold text-slate-800">Week of {format(weekDates[0], 'd MMM yyyy')}</h2>
+              </div>
+              {showWeek ? <ChevronUp size={18} className="text-slate-400" /> : <ChevronDown size={18} className="text-slate-400" />}
+            </button>
+            {showWeek && (
+              <div className="flex items-center gap-3">
+                <input
+                  type="date"
+                  value={weekStart}
+                  onChange={(e) => setWeekStart(e.target.value)}
+                  className="px-3 py-2 rounded-lg border border-slate-300 text-xs font-bold text-slate-700 bg-white"
+                />
+                <button onClick={handleGenerateWeek} className="inline-flex items-center gap-1.5 px-4 py-2 rounded-lg bg-slate-800 text-white text-xs font-bold hover:bg-slate-700 transition-colors">
+                  <Sparkles size={14} /> Generate Week
+                </button>
+                {weekDays.length > 0 && (
+                  <button onClick={() => handlePublishDays(weekDays)} className="inline-flex items-center gap-1.5 px-4 py-2 rounded-lg bg-slate-100 text-slate-700 text-xs font-bold hover:bg-slate-200 transition-colors">
+                    <Archive size={14} /> Publish Week
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+          {showWeek && (
+            <div className="mt-5 space-y-5">
+              {/* Source per weekday */}
+              <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-7 gap-2">
+                {weekDates.map((date, i) => {
+                  const weekday = WEEKDAYS[i];
+                  const versions = Object.keys(presets[weekday] || {}).sort();
+                  return (
+                    <label key={weekday} className="flex flex-col gap-1 bg-slate-50 border border-slate-100 rounded-lg p-2 text-xs">
+                      <span className="text-[9px] font-bold text-slate-400 uppercase tracking-wide">{format(date, 'EEE d MMM')}</span>
+                      <select
+                        value={encodeDaySource(getDaySource(weekday))}
+                        onChange={(e) => setWeekSources(prev => ({ ...prev, [weekday]: decodeDaySource(e.target.value) }))}
+                        className="bg-white border border-slate-300 rounded p-1 font-bold text-slate-700"
+                      >
+                        <option value="current">Current settings</option>
+                        {versions.map(v => <option key={v} value={`preset:${v}`}>{weekday} {v}</option>)}
+                        <option value="closed">Closed</option>
+                      </select>
+                    </label>
+                  );
+                })}
+              </div>
+
+              {weekLeaveWarnings.length > 0 && (
+                <div className="mb-4 p-3 rounded-lg bg-amber-50 border border-amber-200 text-amber-800 text-xs space-y-1">
+                  {weekLeaveWarnings.map(warning => (
+                    <p key={warning} className="flex items-start gap-1.5"><AlertTriangle size={12} className="mt-0.5 shrink-0" /> {warning}</p>
+                  ))}
+                </div>
+              )}
+
+              {weekDays.length > 0 && (
+                <WeekGrid
+                  dates={weekDates}
+                  days={weekDays}
+                  employeeNames={personNames}
+                  selectedDate={selectedWeekDate}
+                  onSelectDay={(date) => setSelectedWeekDate(date === selectedWeekDate ? null : date)}
+                  currentTime={currentTime}
+                />
+              )}
+
+              {/* Selected day */}
+              {selectedWeekDay && (
+                <div className="space-y-4">
+                  <h3 className="text-sm font-bold text-slate-800">{format(fromDateKey(selectedWeekDay.date), 'EEEE d MMMM')} · {selectedWeekDay.label}</h3>
+                  {selectedWeekDay.blue.blocks.length > 0 && (
+                    <ScheduleVis
+                      schedule={selectedWeekDay.blue}
+                      config={selectedWeekDay.config}
+                      employeeIds={selectedWeekDay.blueRoster}
+                      employeeNames={personNames}
+                      currentTime={currentTime}
+                      onEmployeeClick={setSelectedWeekEmployee}
+                    />
+                  )}
+                  {selectedWeekDay.green.rotations.length > 0 && (
+                    <RotationGrid
+                      rotations={selectedWeekDay.green.rotations}
+                      stations={selectedWeekDay.stations}
+                      employeeNames={personNames}
+                      onSelect={(rotationId, employeeId, station) => setExplainedPlacement({ rotationId, employeeId, station, schedule: selectedWeekDay.green, stations: selectedWeekDay.stations, names: personNames })}
+                    />
+                  )}
+                </div>
+              )}
+
+              {/* Employee Card (from the week timeline) */}
+              {selectedWeekDay && selectedWeekEmployee && (
+                <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-6" onClick={() => setSelectedWeekEmployee(null)}>
+                  <div className="w-full max-w-sm" onClick={(e) => e.stopPropagation()}>
+                    <EmployeeCard
+                      employeeId={selectedWeekEmployee}
+                      employeeName={personNames[selectedWeekEmployee]}
+                      blocks={selectedWeekDay.blue.blocks.filter(b => b.employeeId === selectedWeekEmployee)}
+                      cycle={selectedWeekDay.config.cycle}
+                      onClose={() => setSelectedWeekEmployee(null)}
+                      className="h-[480px]"
+                      currentTime={currentTime}
+                      fadePastEvents={fadePastEvents}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Schedule Archive */}
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 mb-8">
+          <button onClick={() => setShowArchive(!showArchive)} className="flex items-center gap-3 text-left">
+            <History size={20} className="text-slate-400" />
+            <div>
+              <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">Schedule Archive</p>
+              <h2 className="text-xl font-bold text-slate-800">{archiveEntries.length} published days</h2>
+            </div>
+            {showArchive ? <ChevronUp size={18} className="text-slate-400" /> : <ChevronDown size={18} className="text-slate-400" />}
+          </button>
+          {showArchive && (
+            <div className="mt-5 grid grid-cols-1 lg:grid-cols-12 gap-6">
+              {/* Dates */}
+              <div className="lg:col-span-2 space-y-1 max-h-[600px] overflow-y-auto pr-2 custom-scrollbar">
+                {archiveEntries.length === 0 && <p className="text-xs text-slate-400">Nothing published yet.</p>}
+                {archiveEntries.map(entry => (
+                  <button
+                    key={entry.date}
+                    onClick={() => setSelectedArchiveDate(entry.date === selectedArchiveDate ? null : entry.date)}
+                    className={`w-full text-left px-3 py-2 rounded-lg text-xs transition-colors ${entry.date === selectedArchiveDate ? 'bg-slate-800 text-white' : 'bg-slate-50 text-slate-700 hover:bg-slate-100'}`}
+                  >
+                    <span className="block font-bold">{format(fromDateKey(entry.date), 'EEE d MMM yyyy')}</span>
+                    <span className="block text-[10px] opacity-70 truncate">{entry.label}</span>
+                  </button>
+                ))}
+              </div>
+
+              {/* Read-only day */}
+              <div className="lg:col-span-10 space-y-5">
+                {!archivedDay && archiveEntries.length > 0 && <p className="text-xs text-slate-400">Pick a date to see what was worked.</p>}
+                {archivedDay && (
+                  <>
+                    <div className="flex items-center justify-between gap-3">
+                      <div>
+                        <h3 className="text-lg font-bold text-slate-800">{format(fromDateKey(archivedDay.date), 'EEEE d MMMM yyyy')}</h3>
+                        <p className="text-xs text-slate-400">
+                          {archivedDay.label} · published {format(new Date(archivedDay.publishedAt), 'd MMM HH:mm')}
+                          {archivedDay.green.seed !== undefined && ` · Green seed ${archivedDay.green.seed}`}
+                        </p>
+                      </div>
+                      <button onClick={() => handleDeleteArchivedDay(archivedDay.date)} className="px-3 py-2 rounded-lg text-rose-600 hover:bg-rose-50 transition-colors" title="Delete from archive"><Trash2 size={16} /></button>
+                    </div>
+
+                    {archivedDay.blueRoster.length > 0 && (
+                      <div>
+                        <h4 className="text-[10px] font-bold uppercase tracking-widest text-blue-600 mb-3">Blue Team · {archivedDay.blue.issues.length} issues</h4>
+                        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 2xl:grid-cols-5 gap-5">
+                          {archivedDay.blueRoster.map(empId => (
+                            <EmployeeCard
+                              key={empId}
+                              employeeId={empId}
+                              employeeName={archivedDay.employeeNames[empId]}
+                              blocks={archivedDay.blue.blocks.filter(b => b.employeeId === empId)}
+                              cycle={archivedDay.config.cycle}
+                              className="h-[380px]"
+                            />
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {archivedDay.green.rotations.length > 0 && (
+                      <div>
+                        <h4 className="text-[10px] font-bold uppercase tracking-widest text-emerald-600 mb-3">Green Team</h4>
+                        <RotationGrid
+                          rotations={archivedDay.green.rotations}
+                          stations={archivedDay.stations}
+                          employeeNames={archivedDay.employeeNames}
+                          onSelect={(rotationId, employeeId, station) => setExplainedPlacement({ rotationId, employeeId, station, schedule: archivedDay.green, stations: archivedDay.stations, names: archivedDay.employeeNames })}
+                        />
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+
+              {/* Fairness Report */}
+              <div className="lg:col-span-12 border-t border-slate-100 pt-5 space-y-4">
+                <div className="flex flex-wrap items-center gap-3">
+                  <h3 className="text-sm font-bold text-slate-800 mr-auto">Green Fairness Report</h3>
+                  <input type="date" value={reportFrom} onChange={(e) => setReportFrom(e.target.value)} className="px-3 py-2 rounded-lg border border-slate-300 text-xs font-bold text-slate-700 bg-white" />
+                  <ArrowRight size={14} className="text-slate-400" />
+                  <input type="date" value={reportTo} onChange={(e) => setReportTo(e.target.value)} className="px-3 py-2 rounded-lg border border-slate-300 text-xs font-bold text-slate-700 bg-white" />
+                  <button onClick={handleBuildFairnessReport} disabled={!reportFrom || !reportTo} className="px-4 py-2 rounded-lg bg-slate-100 text-slate-700 text-xs font-bold hover:bg-slate-200 transition-colors disabled:opacity-40">Build Report</button>
+                </div>
+                {fairnessReport && (
+                  <FairnessReport tally={fairnessReport.tally} stations={fairnessReport.stations} dayCount={fairnessReport.dayCount} employeeNames={fairnessReport.names} />
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
         {/* ================= BLUE TEAM ================= */}
         {currentTeam === TeamType.BLUE && (
           <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
@@ -1029,17 +2157,15 @@ const App: React.FC = () => {
                     <label className="block text-sm font-bold text-slate-700 mb-2">First Show Start</label>
                     <input type="text" value={config.firstShowTime} onChange={(e) => handleTimeChange(e.target.value, 'firstShowTime')} className="w-full px-4 py-3 bg-white text-slate-900 border border-slate-300 rounded-xl font-medium shadow-sm" />
                   </div>
-                  <div>
-                    <label className="block text-sm font-bold text-slate-700 mb-2">Employees (Count)</label>
-                    <div className="relative">
-                      <input type="number" value={config.numEmployees} onChange={(e) => setConfig({ ...config, numEmployees: parseInt(e.target.value) || 1 })} className="w-full pl-10 pr-4 py-3 bg-white text-slate-900 border border-slate-300 rounded-xl font-medium shadow-sm" />
-                      <Users className="absolute left-3.5 top-3.5 text-slate-400" size={18} />
-                    </div>
-                  </div>
                   <div>
                     <label className="block text-sm font-bold text-slate-700 mb-2">Last Show Start</label>
                     <input type="text" value={config.lastShowTime} onChange={(e) => handleTimeChange(e.target.value, 'lastShowTime')} className="w-full px-4 py-3 bg-white text-slate-900 border border-slate-300 rounded-xl font-medium shadow-sm" />
                   </div>
+                  <div>
+                    <label className="block text-sm font-bold text-slate-700 mb-2">Closing Cutoff</label>
+                    <input type="text" placeholder="17:00" value={config.cutoffTime} onChange={(e) => handleTimeChange(e.target.value, 'cutoffTime')} className="w-full px-4 py-3 bg-white text-slate-900 border border-slate-300 rounded-xl font-medium shadow-sm" />
+                    <p className="text-[10px] text-slate-400 mt-1.5">No station starts at or after this time.</p>
+                  </div>
                 </div>
               </div>
 
@@ -1050,42 +2176,85 @@ const App: React.FC = () => {
                 </h2>
                 {/* Changed to grid to avoid scrolling */}
                 <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
-                  {Array.from({ length: config.numEmployees }).map((_, i) => {
-                    const id = `A${i+1}`;
-                    const shift = employeeShifts[id];
-                    return (
+                  {blueListed.map(id => (
                       <div key={id} className="flex flex-col gap-3 p-4 rounded-xl bg-slate-50 border border-slate-100 hover:border-blue-300 transition-all group shadow-sm hover:shadow-md">
                         <div className="flex items-center gap-3">
                             <div className="w-8 h-8 rounded-lg bg-white border border-slate-200 flex items-center justify-center font-bold text-slate-500 text-xs shadow-sm shrink-0">{id}</div>
                             <div className="flex-1 min-w-0">
-                                <select
-                                  value={employeeNames[id] || ''}
-                                  onChange={(e) => setEmployeeNames(prev => ({ ...prev, [id]: e.target.value }))}
-                                  className="w-full bg-transparent border-none p-0 text-sm font-bold text-slate-700 focus:ring-0 cursor-pointer"
-                                >
-                                  <option value="">Select Name</option>
-                                  {EMPLOYEE_NAMES_LIST.map(name => (
-                                    <option key={name} value={name}>{name}</option>
-                                  ))}
-                                </select>
+                                <span className="block text-sm font-bold text-slate-700 truncate">{personNames[id]}</span>
                                 <div className="h-0.5 w-full bg-slate-200 mt-1 group-hover:bg-blue-400 transition-colors rounded-full"></div>
                             </div>
+                            {renderLeaveBadge(id)}
+                            {renderSendHome(id)}
+                            <button onClick={() => updatePerson(id, 'team', null)} className="text-slate-300 hover:text-rose-500 transition-colors shrink-0" title="Take off the Blue roster"><X size={14} /></button>
                         </div>
-                        <div className="flex items-center gap-1.5 bg-white px-2 py-2 rounded-lg border border-slate-200 shadow-inner w-full">
-                             <div className="flex flex-col gap-0.5 flex-1">
-                                <span className="text-[9px] font-bold text-slate-400 uppercase tracking-wide text-center">Arrive</span>
-                                <input type="text" placeholder="09:00" value={shift?.start || ''} onChange={(e) => updateEmployeeShift(id, 'start', e.target.value)} className="w-full text-center text-sm font-mono font-bold text-slate-700 bg-slate-50 rounded border border-slate-200 focus:border-blue-500 py-1" />
-                             </div>
-                             <ArrowRight className="text-slate-300 mt-3" size={14} />
-                             <div className="flex flex-col gap-0.5 flex-1">
-                                <span className="text-[9px] font-bold text-slate-400 uppercase tracking-wide text-center">Leave</span>
-                                <input type="text" placeholder="17:00" value={shift?.end || ''} onChange={(e) => updateEmployeeShift(id, 'end', e.target.value)} className="w-full text-center text-sm font-mono font-bold text-slate-700 bg-slate-50 rounded border border-slate-200 focus:border-blue-500 py-1" />
-                             </div>
-                        </div>
+                        <ShiftEditor employeeId={id} shifts={shiftExceptions} onAdd={addShiftException} onRemove={removeShiftException} onUpdate={updateShiftException} />
+                      </div>
+                  ))}
+                </div>
+                {blueShiftErrors.length > 0 && (
+                  <div className="mt-4 p-3 rounded-lg bg-red-50 border border-red-200 text-red-700 text-[11px] space-y-1">
+                    {blueShiftErrors.map(err => (
+                      <p key={err} className="flex items-start gap-1.5"><AlertCircle size={12} className="mt-0.5 shrink-0" /> {err}</p>
+                    ))}
+                    <p className="text-red-500/80 italic">Schedule is paused until the shift windows are fixed.</p>
+                  </div>
+                )}
+                <div className="mt-4">{renderRosterAdder(TeamType.BLUE)}</div>
+              </div>
+
+              {/* Start Offsets */}
+              <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+                <h2 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-5 flex items-center gap-2">
+                  <Crosshair size={18} /> Start Offsets
+                </h2>
+                <div className="grid grid-cols-2 gap-2 mb-4">
+                  {blueRoster.map((id, i) => {
+                    return (
+                      <div key={id} className="flex items-center justify-between gap-2 bg-slate-50 border border-slate-100 rounded-lg px-3 py-1.5 text-xs">
+                        <span className="font-bold text-slate-500 truncate">{personNames[id]}</span>
+                        <select
+                          value={getStartShowIndex(employeeOffsets, id, i, schedule?.showStartTimes.length ?? 0)}
+                          onChange={(e) => updateEmployeeOffset(id, parseInt(e.target.value))}
+                          className="bg-transparent border-none p-0 font-mono font-bold text-slate-700 focus:ring-0 cursor-pointer"
+                        >
+                          {(schedule?.showStartTimes || []).map((t, idx) => (
+                            <option key={idx} value={idx}>{format(t, 'HH:mm')}</option>
+                          ))}
+                        </select>
                       </div>
                     );
                   })}
                 </div>
+                <button onClick={runOffsetOptimizer} disabled={isOptimizing} className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-60 text-white py-2.5 rounded-xl text-xs font-bold shadow-sm transition-colors">
+                  {isOptimizing ? <RefreshCw size={14} className="animate-spin" /> : <Sparkles size={14} />}
+                  {isOptimizing ? 'Optimizing...' : 'Optimize Offsets'}
+                </button>
+                {pinnedBlocks.length > 0 && (
+                  <button onClick={() => setPinnedBlocks([])} className="w-full mt-2 flex items-center justify-center gap-2 bg-white border border-slate-300 text-slate-500 hover:text-slate-700 hover:bg-slate-50 py-2 rounded-xl text-xs font-bold transition-colors">
+                    <Unlock size={14} /> Clear {pinnedBlocks.length} Pinned Block{pinnedBlocks.length === 1 ? '' : 's'}
+                  </button>
+                )}
+                <p className="text-[10px] text-slate-400 mt-2">Drag a block onto another card or timeline row to reassign it; the lock keeps it there.</p>
+                {offsetOptimization && (
+                  <div className="mt-4 grid grid-cols-3 gap-1 text-[11px] text-center bg-slate-50 border border-slate-200 rounded-lg p-3">
+                    <span></span>
+                    <span className="font-bold text-slate-400 uppercase text-[9px]">Before</span>
+                    <span className="font-bold text-slate-400 uppercase text-[9px]">After</span>
+                    <span className="text-left font-bold text-slate-600">Gaps</span>
+                    <span className="font-mono text-slate-500">{offsetOptimization.before.issueCount}</span>
+                    <span className={`font-mono font-bold ${offsetOptimization.after.issueCount < offsetOptimization.before.issueCount ? 'text-emerald-600' : 'text-slate-700'}`}>{offsetOptimization.after.issueCount}</span>
+                    <span className="text-left font-bold text-slate-600">Uncovered</span>
+                    <span className="font-mono text-slate-500">{offsetOptimization.before.missingMinutes}m</span>
+                    <span className="font-mono font-bold text-slate-700">{offsetOptimization.after.missingMinutes}m</span>
+                    <span className="text-left font-bold text-slate-600">Spread</span>
+                    <span className="font-mono text-slate-500">{offsetOptimization.before.workloadSpread}m</span>
+                    <span className="font-mono font-bold text-slate-700">{offsetOptimization.after.workloadSpread}m</span>
+                  </div>
+                )}
+                {offsetOptimization && activeFreeze && (
+                  <p className="text-[10px] text-slate-400 mt-2">The day is under way: the rest of it is planned from where everyone is, so offsets no longer change it.</p>
+                )}
               </div>
 
               {/* Station Rules */}
@@ -1095,20 +2264,66 @@ const App: React.FC = () => {
                     <Settings2 size={18} /> Station Rules
                   </h2>
                 </div>
+                <div className="space-y-3">
+                  {config.cycle.map((step, i) => (
+                    <div key={i} className="bg-slate-50 border border-slate-200 rounded-lg p-3 text-xs space-y-2">
+                      <div className="flex items-center gap-2">
+                        <span className={`w-3 h-3 rounded-full shrink-0 ${(BLUE_STATION_PALETTE[step.color] || BLUE_STATION_PALETTE.slate).swatch}`}></span>
+                        <input type="text" value={step.station} onChange={(e) => updateCycleStep(i, 'station', e.target.value)} className="flex-1 min-w-0 bg-white border border-slate-300 rounded p-1.5 font-bold text-slate-700" />
+                        <button onClick={() => moveCycleStep(i, -1)} disabled={i === 0} className="text-slate-400 hover:text-slate-600 disabled:opacity-30"><ChevronUp size={14} /></button>
+                        <button onClick={() => moveCycleStep(i, 1)} disabled={i === config.cycle.length - 1} className="text-slate-400 hover:text-slate-600 disabled:opacity-30"><ChevronDown size={14} /></button>
+                        <button onClick={() => removeCycleStep(i)} disabled={config.cycle.length <= 1} className="text-rose-400 hover:text-rose-600 disabled:opacity-30 disabled:cursor-not-allowed"><Trash2 size={14} /></button>
+                      </div>
+                      <div className="grid grid-cols-3 gap-2 items-end">
+                        <label className="flex flex-col gap-0.5">
+                          <span className="text-[9px] font-bold text-slate-400 uppercase tracking-wide">Minutes</span>
+                          <input type="number" value={step.duration} onChange={(e) => updateCycleStep(i, 'duration', parseInt(e.target.value) || 0)} className="w-full bg-white border border-slate-300 rounded p-1 text-center" />
+                        </label>
+                        <label className="flex flex-col gap-0.5">
+                          <span className="text-[9px] font-bold text-slate-400 uppercase tracking-wide">Buffer</span>
+                          <input type="number" value={step.bufferAfter} onChange={(e) => updateCycleStep(i, 'bufferAfter', Math.max(0, parseInt(e.target.value) || 0))} className="w-full bg-white border border-slate-300 rounded p-1 text-center" />
+                        </label>
+                        <select value={step.color} onChange={(e) => updateCycleStep(i, 'color', e.target.value)} className="bg-white border border-slate-300 rounded p-1">
+                          {Object.keys(BLUE_STATION_PALETTE).map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
+                      </div>
+                      <div className="flex items-center justify-between gap-2">
+                        {i === 0 ? (
+                          <p className="text-[10px] text-slate-400">Runs on the show grid.</p>
+                        ) : (
+                          <button onClick={() => updateCycleStep(i, 'duration', Math.max(config.frequency, step.duration))} className="text-[10px] font-bold text-blue-600 bg-blue-50 px-2 py-0.5 rounded hover:bg-blue-100">Rec: {Math.max(config.frequency, step.duration)}m</button>
+                        )}
+                        <label className="flex items-center gap-1.5 text-slate-600 cursor-pointer">
+                          <input type="checkbox" checked={!!step.requiresCertification} onChange={(e) => updateCycleStep(i, 'requiresCertification', e.target.checked)} className="rounded border-slate-300" />
+                          Certified only
+                        </label>
+                      </div>
+                    </div>
+                  ))}
+                  <button onClick={addCycleStep} className="w-full flex items-center justify-center gap-1.5 text-xs font-bold text-blue-600 bg-blue-50 hover:bg-blue-100 py-2 rounded-lg transition-colors">
+                    <Plus size={14} /> Add Station Step
+                  </button>
+                </div>
+              </div>
+
+              {/* Lunch Breaks */}
+              <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+                <h2 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-5 flex items-center gap-2">
+                  <Sandwich size={18} /> Lunch Breaks
+                </h2>
                 <div className="space-y-4">
                   <div>
-                    <div className="flex justify-between items-baseline mb-2">
-                      <label className="block text-sm font-bold text-teal-800">Ocean Duration</label>
-                      <button onClick={() => setConfig(c => ({ ...c, durationOcean: Math.max(c.frequency, c.durationOcean) }))} className="text-[10px] font-bold text-blue-600 bg-blue-50 px-2 py-0.5 rounded hover:bg-blue-100">Rec: {Math.max(config.frequency, config.durationOcean)}m</button>
+                    <label className="block text-sm font-bold text-slate-700 mb-2">Lunch Window</label>
+                    <div className="flex items-center gap-2">
+                      <input type="text" placeholder="12:00" value={lunchConfig.windowStart} onChange={(e) => handleTimeChange(e.target.value, 'lunchStart')} className="w-full px-4 py-2 bg-white text-slate-900 border border-slate-300 rounded-xl font-medium shadow-sm text-center" />
+                      <ArrowRight className="text-slate-300 shrink-0" size={14} />
+                      <input type="text" placeholder="14:00" value={lunchConfig.windowEnd} onChange={(e) => handleTimeChange(e.target.value, 'lunchEnd')} className="w-full px-4 py-2 bg-white text-slate-900 border border-slate-300 rounded-xl font-medium shadow-sm text-center" />
                     </div>
-                    <input type="number" value={config.durationOcean} onChange={(e) => setConfig({ ...config, durationOcean: parseInt(e.target.value) || 0 })} className="w-full px-4 py-2 bg-white text-slate-900 border border-slate-300 rounded-xl focus:ring-2 focus:ring-teal-500 font-medium shadow-sm" />
                   </div>
                   <div>
-                    <div className="flex justify-between items-baseline mb-2">
-                      <label className="block text-sm font-bold text-rose-800">Floor -1 Duration</label>
-                      <button onClick={() => setConfig(c => ({ ...c, durationFloor: Math.max(c.frequency, 10) }))} className="text-[10px] font-bold text-blue-600 bg-blue-50 px-2 py-0.5 rounded hover:bg-blue-100">Rec: {Math.max(config.frequency, 10)}m</button>
-                    </div>
-                    <input type="number" value={config.durationFloor} onChange={(e) => setConfig({ ...config, durationFloor: parseInt(e.target.value) || 0 })} className="w-full px-4 py-2 bg-white text-slate-900 border border-slate-300 rounded-xl focus:ring-2 focus:ring-rose-500 font-medium shadow-sm" />
+                    <label className="block text-sm font-bold text-amber-800 mb-2">Lunch Duration (min)</label>
+                    <input type="number" value={lunchConfig.duration} onChange={(e) => setLunchConfig(prev => ({ ...prev, duration: parseInt(e.target.value) || 0 }))} className="w-full px-4 py-2 bg-white text-slate-900 border border-slate-300 rounded-xl focus:ring-2 focus:ring-amber-500 font-medium shadow-sm" />
+                    <p className="text-[10px] text-slate-400 mt-1.5">Set to 0 to disable lunch breaks.</p>
                   </div>
                 </div>
               </div>
@@ -1148,15 +2363,53 @@ const App: React.FC = () => {
                 </div>
               )}
 
-              {/* Cards - THIS REPLACES THE TIMELINE VISUALIZATION */}
+              {/* View Toggle */}
               {schedule && (
+                <div className="flex justify-end">
+                  <div className="bg-slate-100 p-1 rounded-xl flex gap-1">
+                    <button onClick={() => setBlueView('cards')} className={`px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1.5 transition-all ${blueView === 'cards' ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}>
+                      <LayoutGrid size={14} /> Cards
+                    </button>
+                    <button onClick={() => setBlueView('timeline')} className={`px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1.5 transition-all ${blueView === 'timeline' ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}>
+                      <GanttChart size={14} /> Timeline
+                    </button>
+                    <button onClick={() => setBlueView('stations')} className={`px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1.5 transition-all ${blueView === 'stations' ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}>
+                      <Layers size={14} /> Stations
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* Timeline */}
+              {schedule && blueView === 'timeline' && (
+                <ScheduleVis
+                  schedule={schedule}
+                  config={config}
+                  employeeIds={blueRoster}
+                  employeeNames={personNames}
+                  currentTime={currentTime}
+                  onEmployeeClick={setSelectedBlueEmployee}
+                  onBlockDrop={pinBlock}
+                />
+              )}
+
+              {/* Station Coverage */}
+              {schedule && blueView === 'stations' && (
+                <StationCoverage lanes={stationLanes} employeeNames={personNames} currentTime={currentTime} />
+              )}
+
+              {/* Cards */}
+              {schedule && blueView === 'cards' && (
                 <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 2xl:grid-cols-5 gap-5">
                   {employeeIds.map(empId => (
                     <EmployeeCard 
                       key={empId}
                       employeeId={empId} 
-                      employeeName={employeeNames[empId]}
+                      employeeName={personNames[empId]}
                       blocks={schedule.blocks.filter(b => b.employeeId === empId)} 
+                      cycle={config.cycle}
+                      onBlockDrop={(station, startTime) => pinBlock(empId, station, startTime)}
+                      onTogglePin={toggleBlockPin}
                       className="h-[380px]" 
                       currentTime={currentTime}
                       fadePastEvents={fadePastEvents}
@@ -1164,6 +2417,26 @@ const App: React.FC = () => {
                   ))}
                 </div>
               )}
+
+              {/* Employee Card (from the timeline) */}
+              {schedule && selectedBlueEmployee && (
+                <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-6" onClick={() => setSelectedBlueEmployee(null)}>
+                  <div className="w-full max-w-sm" onClick={(e) => e.stopPropagation()}>
+                    <EmployeeCard
+                      employeeId={selectedBlueEmployee}
+                      employeeName={personNames[selectedBlueEmployee]}
+                      blocks={schedule.blocks.filter(b => b.employeeId === selectedBlueEmployee)}
+                      cycle={config.cycle}
+                      onBlockDrop={(station, startTime) => pinBlock(selectedBlueEmployee, station, startTime)}
+                      onTogglePin={toggleBlockPin}
+                      onClose={() => setSelectedBlueEmployee(null)}
+                      className="h-[480px]"
+                      currentTime={currentTime}
+                      fadePastEvents={fadePastEvents}
+                    />
+                  </div>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -1176,48 +2449,284 @@ const App: React.FC = () => {
               <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
                  <h2 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-5 flex items-center gap-2"><Clock size={18} /> Green Config</h2>
                  <div className="space-y-4">
-                    <div>
-                      <label className="block text-sm font-bold text-slate-700 mb-2">Employees (Count)</label>
-                      <div className="relative">
-                        <input type="number" value={numGreenEmployees} onChange={(e) => setNumGreenEmployees(parseInt(e.target.value) || 4)} className="w-full pl-10 pr-4 py-3 bg-white text-slate-900 border border-slate-300 rounded-xl focus:ring-2 focus:ring-emerald-500 font-medium shadow-sm" />
-                        <Users className="absolute left-3.5 top-3.5 text-slate-400" size={18} />
-                      </div>
+                    <div className="bg-slate-100 p-1 rounded-xl flex gap-1">
+                      <button onClick={() => setGreenSolver('greedy')} className={`flex-1 px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${greenSolver === 'greedy' ? 'bg-white text-emerald-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`} title="Fill rotation by rotation; rules are kept where possible">
+                        Greedy
+                      </button>
+                      <button onClick={() => setGreenSolver('exact')} className={`flex-1 px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${greenSolver === 'exact' ? 'bg-white text-emerald-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`} title="Search the whole day so every hard rule always holds">
+                        Exact
+                      </button>
                     </div>
+                    {greenSolver === 'exact' && greenData.solver && (
+                      greenData.solver.status === 'solved' ? (
+                        <p className="text-[11px] font-medium text-emerald-700 bg-emerald-50 border border-emerald-100 rounded-lg px-3 py-2">
+                          All hard rules met · {greenData.solver.nodes} search steps
+                        </p>
+                      ) : (
+                        <div className="text-[11px] text-red-700 bg-red-50 border border-red-100 rounded-lg px-3 py-2 space-y-1">
+                          <p className="font-bold">{greenData.solver.status === 'limit' ? 'Search limit reached' : 'No feasible schedule'}</p>
+                          <ul className="list-disc pl-4 space-y-0.5">
+                            {greenData.solver.explanation.map((line, i) => <li key={i}>{line}</li>)}
+                            {blockingRules?.schedule === greenData && blockingRules.lines.map((line, i) => <li key={`rule-${i}`}>{line}</li>)}
+                          </ul>
+                          {blockingRules?.schedule !== greenData && (
+                            <button onClick={findGreenBlockingRules} disabled={isFindingBlockingRules} className="inline-flex items-center gap-1 font-bold underline hover:text-red-900 disabled:opacity-60">
+                              {isFindingBlockingRules && <RefreshCw size={10} className="animate-spin" />}
+                              {isFindingBlockingRules ? 'Checking each rule...' : 'Which rule is in the way?'}
+                            </button>
+                          )}
+                        </div>
+                      )
+                    )}
                     <div className="flex gap-2">
-                      <button onClick={() => setGreenRefreshTrigger(prev => prev + 1)} className="flex-1 bg-emerald-600 hover:bg-emerald-700 text-white font-bold py-3 rounded-xl flex items-center justify-center gap-2 transition-colors shadow-emerald-200 shadow-md"><RefreshCw size={16} /> Re-Shuffle</button>
+                      <button onClick={() => setGreenSeed(prev => prev + 1)} className="flex-1 bg-emerald-600 hover:bg-emerald-700 text-white font-bold py-3 rounded-xl flex items-center justify-center gap-2 transition-colors shadow-emerald-200 shadow-md"><RefreshCw size={16} /> Re-Shuffle</button>
                       {forcedAssignments.length > 0 && (
                         <button onClick={clearForcedAssignments} className="bg-white border border-slate-300 text-slate-500 hover:text-slate-700 hover:bg-slate-50 p-3 rounded-xl transition-colors" title="Clear all manual overrides"><Unlock size={16} /></button>
                       )}
                     </div>
+                    <div className="flex items-center gap-2 text-xs">
+                      <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wide">Seed</span>
+                      <button onClick={() => setGreenSeed(prev => Math.max(0, prev - 1))} disabled={greenSeed <= 0} className="p-1.5 rounded-lg border border-slate-200 text-slate-500 hover:bg-slate-50 disabled:opacity-30" title="Previous shuffle"><ChevronLeft size={14} /></button>
+                      <input
+                        type="number"
+                        min={0}
+                        value={greenSeed}
+                        onChange={(e) => setGreenSeed(Math.max(0, parseInt(e.target.value) || 0))}
+                        className="flex-1 min-w-0 bg-white border border-slate-300 rounded p-1.5 text-center font-mono font-bold text-slate-700"
+                      />
+                      <button onClick={() => setGreenSeed(prev => prev + 1)} className="p-1.5 rounded-lg border border-slate-200 text-slate-500 hover:bg-slate-50" title="Next shuffle"><ChevronRight size={14} /></button>
+                    </div>
+                    <div className="flex items-center gap-2 text-xs">
+                      <input
+                        type="number"
+                        min={2}
+                        max={200}
+                        value={candidateCount}
+                        onChange={(e) => setCandidateCount(Math.min(200, Math.max(2, parseInt(e.target.value) || 2)))}
+                        className="w-16 bg-white border border-slate-300 rounded p-1.5 text-center font-mono font-bold text-slate-700"
+                      />
+                      <button onClick={findGreenCandidates} disabled={rotationErrors.length > 0 || greenShiftErrors.length > 0} className="flex-1 inline-flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg bg-slate-100 text-slate-700 font-bold hover:bg-slate-200 transition-colors disabled:opacity-40">
+                        <Sparkles size={14} /> Compare Shuffles
+                      </button>
+                    </div>
                  </div>
               </div>
 
-               {/* Shift Exceptions */}
-               <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+              {/* Green Rules */}
+              <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
                  <div className="flex items-center justify-between mb-4">
-                    <h2 className="text-sm font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2"><CalendarClock size={18} /> Shift Exceptions</h2>
-                    <button onClick={addShiftException} className="text-emerald-600 bg-emerald-50 p-1.5 rounded-lg hover:bg-emerald-100 transition-colors"><Plus size={16} /></button>
+                    <h2 className="text-sm font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2"><SlidersHorizontal size={18} /> Rules</h2>
+                    <button onClick={resetGreenRules} className="text-slate-400 p-1.5 rounded-lg hover:bg-slate-100 hover:text-slate-600 transition-colors" title="Reset to standard policy"><RotateCcw size={16} /></button>
                  </div>
                  <div className="space-y-3">
-                    {shiftExceptions.map(ex => (
-                       <div key={ex.id} className="bg-slate-50 border border-slate-200 rounded-lg p-3 text-xs space-y-2">
-                          <div className="flex justify-between items-center">
-                             <span className="font-bold text-slate-600">Custom Hours</span>
-                             <button onClick={() => removeShiftException(ex.id)} className="text-rose-400 hover:text-rose-600"><Trash2 size={14}/></button>
+                    {GREEN_RULE_IDS.map(id => {
+                      const rule = greenRules[id];
+                      const isBonus = id === 'escapeMuseum';
+                      return (
+                        <div key={id} className={`rounded-xl border p-3 space-y-2 text-xs ${rule.enabled ? 'border-slate-200' : 'border-slate-100 opacity-60'}`}>
+                          <div className="flex items-center justify-between gap-2">
+                            <label className="flex items-center gap-2 font-bold text-slate-700">
+                              <input type="checkbox" checked={rule.enabled} onChange={(e) => updateGreenRule(id, { enabled: e.target.checked })} className="rounded text-emerald-600 focus:ring-emerald-500" />
+                              {GREEN_RULE_LABELS[id]}
+                            </label>
+                            {!isBonus && (
+                              <div className="bg-slate-100 p-0.5 rounded-lg flex gap-0.5">
+                                <button onClick={() => updateGreenRule(id, { hard: true })} disabled={!rule.enabled} className={`px-2 py-0.5 rounded-md text-[10px] font-bold transition-all ${rule.hard ? 'bg-white text-red-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}>Hard</button>
+                                <button onClick={() => updateGreenRule(id, { hard: false })} disabled={!rule.enabled} className={`px-2 py-0.5 rounded-md text-[10px] font-bold transition-all ${!rule.hard ? 'bg-white text-amber-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}>Soft</button>
+                              </div>
+                            )}
+                          </div>
+                          <p className="text-[10px] text-slate-400">{describeGreenRule(id, greenRules, greenStations)}</p>
+                          <div className="flex items-center gap-2">
+                            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wide w-12">{isBonus ? 'Bonus' : 'Weight'}</span>
+                            <input type="number" min={0} step={1000} value={rule.weight} disabled={!rule.enabled} onChange={(e) => updateGreenRule(id, { weight: Math.max(0, parseInt(e.target.value) || 0) })} className="flex-1 min-w-0 bg-white border border-slate-300 rounded p-1.5 text-right font-mono" />
                           </div>
-                          <div className="space-y-2">
-                             <select value={ex.employeeId} onChange={(e) => updateShiftException(ex.id, 'employeeId', e.target.value)} className="w-full bg-white border border-slate-300 rounded p-1.5">
-                                {Array.from({length: numGreenEmployees}).map((_, i) => <option key={i} value={`B${i+1}`}>{getGreenEmployeeName(`B${i+1}`)}</option>)}
+                          {id === 'minimumGap' && (
+                            <div className="flex items-center gap-2">
+                              <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wide w-12">Within</span>
+                              <input type="number" min={2} max={10} value={greenRules.minimumGap.within} disabled={!rule.enabled} onChange={(e) => updateGreenRule('minimumGap', { within: Math.min(10, Math.max(2, parseInt(e.target.value) || 2)) })} className="w-16 bg-white border border-slate-300 rounded p-1.5 text-center font-mono" />
+                              <span className="text-slate-400">rotations</span>
+                            </div>
+                          )}
+                          {id === 'maxPerStation' && (
+                            <div className="flex items-center gap-2">
+                              <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wide w-12">Limit</span>
+                              <input type="number" min={1} max={10} value={greenRules.maxPerStation.limit} disabled={!rule.enabled} onChange={(e) => updateGreenRule('maxPerStation', { limit: Math.min(10, Math.max(1, parseInt(e.target.value) || 1)) })} className="w-16 bg-white border border-slate-300 rounded p-1.5 text-center font-mono" />
+                              <span className="text-slate-400">per day</span>
+                            </div>
+                          )}
+                          {id === 'onceOnly' && (
+                            <div className="flex flex-wrap gap-1">
+                              {stationsByPriority.map(st => {
+                                const active = greenRules.onceOnly.stations.includes(st.id);
+                                return (
+                                  <button
+                                    key={st.id}
+                                    onClick={() => toggleOnceOnlyStation(st.id)}
+                                    disabled={!rule.enabled}
+                                    className={`px-2 py-0.5 rounded text-[10px] font-bold border transition-colors ${active ? `${(GREEN_STATION_PALETTE[st.color] || GREEN_STATION_PALETTE.slate).label} border-transparent` : 'bg-white text-slate-400 border-slate-200 hover:text-slate-600'}`}
+                                  >
+                                    {st.name}
+                                  </button>
+                                );
+                              })}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                    <p className="text-[10px] text-slate-400">Hard rules are only broken when nobody else can take a seat, and are flagged. Exact mode never breaks them. Soft rules add their weight to the candidate's score.</p>
+                 </div>
+              </div>
+
+              {/* Green Lunch Breaks */}
+              <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+                 <h2 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-5 flex items-center gap-2"><Sandwich size={18} /> Lunch Breaks</h2>
+                 <div className="space-y-4">
+                    <div>
+                      <label className="block text-sm font-bold text-slate-700 mb-2">Lunch Window</label>
+                      <div className="flex items-center gap-2">
+                        <input type="text" placeholder="12:00" value={greenLunchConfig.windowStart} onChange={(e) => updateGreenLunchTime('windowStart', e.target.value)} className="w-full px-4 py-2 bg-white text-slate-900 border border-slate-300 rounded-xl font-medium shadow-sm text-center" />
+                        <ArrowRight className="text-slate-300 shrink-0" size={14} />
+                        <input type="text" placeholder="14:00" value={greenLunchConfig.windowEnd} onChange={(e) => updateGreenLunchTime('windowEnd', e.target.value)} className="w-full px-4 py-2 bg-white text-slate-900 border border-slate-300 rounded-xl font-medium shadow-sm text-center" />
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-bold text-slate-700 mb-2">Break Length (min)</label>
+                      <input type="number" value={greenLunchConfig.duration} onChange={(e) => setGreenLunchConfig(prev => ({ ...prev, duration: parseInt(e.target.value) || 0 }))} className="w-full px-4 py-2 bg-white text-slate-900 border border-slate-300 rounded-xl focus:ring-2 focus:ring-emerald-500 font-medium shadow-sm" />
+                      <p className="text-[10px] text-slate-400 mt-1.5">Breaks are staggered so every station keeps its minimum; a certified colleague stands in where it cannot. Set to 0 to disable.</p>
+                    </div>
+                 </div>
+              </div>
+
+              {/* Rotation Timetable */}
+              <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+                 <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-sm font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2"><Timer size={18} /> Rotations</h2>
+                    <div className="flex items-center gap-1">
+                       <button onClick={resetRotations} className="text-slate-400 p-1.5 rounded-lg hover:bg-slate-100 hover:text-slate-600 transition-colors" title="Reset to standard day"><RotateCcw size={16} /></button>
+                       <button onClick={addRotation} className="text-emerald-600 bg-emerald-50 p-1.5 rounded-lg hover:bg-emerald-100 transition-colors" title="Add rotation"><Plus size={16} /></button>
+                    </div>
+                 </div>
+                 <div className="space-y-2">
+                    {rotationsMeta.map(rot => (
+                       <div key={rot.id} className="flex items-center gap-2 text-xs">
+                          <span className="font-bold text-slate-600 w-12 shrink-0">Rot {rot.id}</span>
+                          <input type="text" value={rot.start} onChange={(e) => updateRotationTime(rot.id, 'start', e.target.value)} className="w-full bg-white border border-slate-300 rounded p-1.5 text-center font-mono" />
+                          <span className="text-slate-400">-</span>
+                          <input type="text" value={rot.end} onChange={(e) => updateRotationTime(rot.id, 'end', e.target.value)} className="w-full bg-white border border-slate-300 rounded p-1.5 text-center font-mono" />
+                          <button onClick={() => removeRotation(rot.id)} disabled={rotationsMeta.length <= 1} className="text-rose-400 hover:text-rose-600 disabled:opacity-30 disabled:cursor-not-allowed shrink-0"><Trash2 size={14}/></button>
+                       </div>
+                    ))}
+                 </div>
+                 {rotationErrors.length > 0 && (
+                    <div className="mt-4 p-3 rounded-lg bg-red-50 border border-red-200 text-red-700 text-[11px] space-y-1">
+                       {rotationErrors.map(err => (
+                          <p key={err} className="flex items-start gap-1.5"><AlertCircle size={12} className="mt-0.5 shrink-0" /> {err}</p>
+                       ))}
+                       <p className="text-red-500/80 italic">Schedule is paused until the timetable is fixed.</p>
+                    </div>
+                 )}
+              </div>
+
+              {/* Station Catalogue */}
+              <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+                 <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-sm font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2"><LayoutGrid size={18} /> Stations</h2>
+                    <div className="flex items-center gap-1">
+                       <button onClick={resetStations} className="text-slate-400 p-1.5 rounded-lg hover:bg-slate-100 hover:text-slate-600 transition-colors" title="Reset to standard stations"><RotateCcw size={16} /></button>
+                       <button onClick={addStation} className="text-emerald-600 bg-emerald-50 p-1.5 rounded-lg hover:bg-emerald-100 transition-colors" title="Add station"><Plus size={16} /></button>
+                    </div>
+                 </div>
+                 <div className="space-y-3">
+                    {stationsByPriority.map(st => (
+                       <div key={st.id} className="bg-slate-50 border border-slate-200 rounded-lg p-3 text-xs space-y-2">
+                          <div className="flex items-center gap-2">
+                             <span className={`w-3 h-3 rounded-full shrink-0 ${GREEN_STATION_PALETTE[st.color]?.label || GREEN_STATION_PALETTE.slate.label}`}></span>
+                             <input type="text" value={st.name} onChange={(e) => updateStation(st.id, 'name', e.target.value)} className="flex-1 min-w-0 bg-white border border-slate-300 rounded p-1.5 font-bold text-slate-700" />
+                             <button onClick={() => removeStation(st.id)} disabled={greenStations.length <= 1} className="text-rose-400 hover:text-rose-600 disabled:opacity-30 disabled:cursor-not-allowed"><Trash2 size={14}/></button>
+                          </div>
+                          <div className="grid grid-cols-3 gap-2">
+                             <label className="flex flex-col gap-0.5">
+                                <span className="text-[9px] font-bold text-slate-400 uppercase tracking-wide">Min</span>
+                                <input type="number" min={0} value={st.minStaff} onChange={(e) => updateStation(st.id, 'minStaff', Math.max(0, parseInt(e.target.value) || 0))} className="w-full bg-white border border-slate-300 rounded p-1 text-center" />
+                             </label>
+                             <label className="flex flex-col gap-0.5">
+                                <span className="text-[9px] font-bold text-slate-400 uppercase tracking-wide">Max</span>
+                                <input type="number" min={0} placeholder="∞" value={st.maxStaff ?? ''} onChange={(e) => updateStation(st.id, 'maxStaff', e.target.value === '' ? null : Math.max(0, parseInt(e.target.value) || 0))} className="w-full bg-white border border-slate-300 rounded p-1 text-center" />
+                             </label>
+                             <label className="flex flex-col gap-0.5">
+                                <span className="text-[9px] font-bold text-slate-400 uppercase tracking-wide">Priority</span>
+                                <input type="number" value={st.priority} onChange={(e) => updateStation(st.id, 'priority', parseInt(e.target.value) || 0)} className="w-full bg-white border border-slate-300 rounded p-1 text-center" />
+                             </label>
+                          </div>
+                          <div className="flex flex-wrap items-center justify-between gap-2">
+                             <label className="flex items-center gap-1.5 text-slate-600 cursor-pointer">
+                                <input type="checkbox" checked={st.countsForRepeat} onChange={(e) => updateStation(st.id, 'countsForRepeat', e.target.checked)} className="rounded border-slate-300" />
+                                No-repeat rules
+                             </label>
+                             <label className="flex items-center gap-1.5 text-slate-600 cursor-pointer">
+                                <input type="checkbox" checked={!!st.requiresCertification} onChange={(e) => updateStation(st.id, 'requiresCertification', e.target.checked)} className="rounded border-slate-300" />
+                                Certified only
+                             </label>
+                             <label className="flex items-center gap-1.5 text-slate-600 cursor-pointer" title="Takes people who are only here for part of the rotation">
+                                <input type="checkbox" checked={acceptsLateArrivals(st)} onChange={(e) => updateStation(st.id, 'lateArrivalOk', e.target.checked)} className="rounded border-slate-300" />
+                                Late OK
+                             </label>
+                             <select value={st.color} onChange={(e) => updateStation(st.id, 'color', e.target.value)} className="bg-white border border-slate-300 rounded p-1">
+                                {Object.keys(GREEN_STATION_PALETTE).map(c => <option key={c} value={c}>{c}</option>)}
                              </select>
-                             <div className="flex items-center gap-2">
-                                <input type="text" value={ex.startTime} onChange={(e) => updateShiftException(ex.id, 'startTime', e.target.value)} className="w-full bg-white border border-slate-300 rounded p-1.5 text-center" />
-                                <span className="text-slate-400">-</span>
-                                <input type="text" value={ex.endTime} onChange={(e) => updateShiftException(ex.id, 'endTime', e.target.value)} className="w-full bg-white border border-slate-300 rounded p-1.5 text-center" />
-                             </div>
                           </div>
                        </div>
                     ))}
                  </div>
+                 <p className="text-[10px] text-slate-400 mt-3">Leave Max empty for a station that takes everyone left over (like Museum).</p>
+              </div>
+
+               {/* Shifts */}
+               <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+                 <h2 className="text-sm font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2 mb-4"><CalendarClock size={18} /> Shifts</h2>
+                 <div className="space-y-3">
+                    {greenListed.map(id => (
+                       <div key={id} className="bg-slate-50 border border-slate-200 rounded-lg p-3 text-xs space-y-2">
+                          <div className="flex items-center justify-between gap-2">
+                             <span className="font-bold text-slate-600">{getGreenEmployeeName(id)}</span>
+                             {renderLeaveBadge(id)}
+                          </div>
+                          <ShiftEditor employeeId={id} shifts={shiftExceptions} onAdd={addShiftException} onRemove={removeShiftException} onUpdate={updateShiftException} />
+                       </div>
+                    ))}
+                 </div>
+                 <p className="text-[10px] text-slate-400 mt-3">Each window is a stretch the person works; several split their shift. Shifts stay with the person when they move to Blue.</p>
+                 <div className="mt-4 pt-4 border-t border-slate-100 space-y-1.5 text-xs">
+                    <label className="block font-bold text-slate-700">Presence Threshold</label>
+                    <div className="flex items-center gap-2">
+                       <input
+                         type="number"
+                         min={0}
+                         max={greenPresence.unit === 'percent' ? 100 : undefined}
+                         value={greenPresence.value}
+                         onChange={(e) => {
+                           const value = Math.max(0, parseInt(e.target.value) || 0);
+                           setGreenPresence(prev => ({ ...prev, value: prev.unit === 'percent' ? Math.min(100, value) : value }));
+                         }}
+                         className="w-20 bg-white border border-slate-300 rounded p-1.5 text-center font-mono"
+                       />
+                       <select value={greenPresence.unit} onChange={(e) => setGreenPresence({ unit: e.target.value as PresenceThreshold['unit'], value: greenPresence.unit === e.target.value ? greenPresence.value : Math.min(100, greenPresence.value) })} className="bg-white border border-slate-300 rounded p-1.5">
+                          <option value="percent">% of rotation</option>
+                          <option value="minutes">minutes</option>
+                       </select>
+                    </div>
+                    <p className="text-[10px] text-slate-400">Less time than this in a rotation means off shift. Between this and the full rotation, people only go to stations marked Late OK.</p>
+                 </div>
+                 {greenShiftErrors.length > 0 && (
+                    <div className="mt-4 p-3 rounded-lg bg-red-50 border border-red-200 text-red-700 text-[11px] space-y-1">
+                       {greenShiftErrors.map(err => (
+                          <p key={err} className="flex items-start gap-1.5"><AlertCircle size={12} className="mt-0.5 shrink-0" /> {err}</p>
+                       ))}
+                       <p className="text-red-500/80 italic">Schedule is paused until the shift windows are fixed.</p>
+                    </div>
+                 )}
               </div>
 
               {/* Side Tasks */}
@@ -1234,8 +2743,8 @@ const App: React.FC = () => {
                              <button onClick={() => removeSideTask(task.id)} className="text-rose-400 hover:text-rose-600"><Trash2 size={14}/></button>
                           </div>
                           <div className="grid grid-cols-2 gap-2">
-                             <select value={task.rotationId} onChange={(e) => updateSideTask(task.id, 'rotationId', parseInt(e.target.value))} className="bg-white border border-slate-300 rounded p-1"> {[1,2,3,4,5].map(r => <option key={r} value={r}>Rot {r}</option>)} </select>
-                             <select value={task.employeeId} onChange={(e) => updateSideTask(task.id, 'employeeId', e.target.value)} className="bg-white border border-slate-300 rounded p-1"> {Array.from({length: numGreenEmployees}).map((_, i) => <option key={i} value={`B${i+1}`}>{getGreenEmployeeName(`B${i+1}`)}</option>)} </select>
+                             <select value={task.rotationId} onChange={(e) => updateSideTask(task.id, 'rotationId', parseInt(e.target.value))} className="bg-white border border-slate-300 rounded p-1"> {rotationsMeta.map(r => <option key={r.id} value={r.id}>Rot {r.id}</option>)} </select>
+                             <select value={task.employeeId} onChange={(e) => updateSideTask(task.id, 'employeeId', e.target.value)} className="bg-white border border-slate-300 rounded p-1"> {greenRoster.map(id => <option key={id} value={id}>{getGreenEmployeeName(id)}</option>)} </select>
                           </div>
                        </div>
                     ))}
@@ -1243,31 +2752,38 @@ const App: React.FC = () => {
               </div>
 
                <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
-                <h2 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-5 flex items-center gap-2"><UserCircle size={18} /> Green Team Names</h2>
+                <h2 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-5 flex items-center gap-2"><UserCircle size={18} /> Green Team Roster</h2>
                 <div className="space-y-3 max-h-[300px] overflow-y-auto pr-2 custom-scrollbar">
-                  {Array.from({ length: numGreenEmployees }).map((_, i) => {
-                    const id = `B${i+1}`;
+                  {greenListed.map(id => {
                     return (
                       <div key={id} className="flex items-center gap-3 text-sm p-1 rounded-lg hover:bg-slate-50 transition-colors">
-                        <span className="font-bold text-slate-700 w-9 flex-shrink-0 bg-slate-100 py-2 rounded text-center shadow-sm border border-slate-200">{id}</span>
-                        <select
-                          value={greenEmployeeNames[id] || ''}
-                          onChange={(e) => setGreenEmployeeNames(prev => ({ ...prev, [id]: e.target.value }))}
-                          className="flex-1 px-3 py-2 bg-white border border-slate-300 rounded-lg focus:ring-2 focus:ring-emerald-500 text-slate-900 font-medium text-xs"
-                        >
-                          <option value="">Select Name</option>
-                          {EMPLOYEE_NAMES_LIST.map(name => (
-                            <option key={name} value={name}>{name}</option>
-                          ))}
-                        </select>
+                        <span className="font-bold text-slate-700 w-9 flex-shrink-0 bg-slate-100 py-2 rounded text-center shadow-sm border border-slate-200 text-xs">{id}</span>
+                        <span className="flex-1 font-medium text-xs text-slate-900 truncate">{personNames[id]}</span>
+                        {renderLeaveBadge(id)}
+                        {renderSendHome(id)}
+                        <button onClick={() => updatePerson(id, 'team', null)} className="text-slate-300 hover:text-rose-500 transition-colors" title="Take off the Green roster"><X size={14} /></button>
                       </div>
                     );
                   })}
                 </div>
+                <div className="mt-4">{renderRosterAdder(TeamType.GREEN)}</div>
               </div>
             </div>
 
             <div className="lg:col-span-9 space-y-6">
+                 {greenCandidates && (
+                   <GreenCandidates
+                     candidates={greenCandidates}
+                     current={greenData}
+                     stations={greenStations}
+                     currentSeed={greenSeed}
+                     employeeNames={personNames}
+                     onUseSeed={applyCandidateSeed}
+                     onLock={lockCandidate}
+                     onClose={() => setGreenCandidates(null)}
+                   />
+                 )}
+
                  {activeGreenNotifications.length > 0 && (
                    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-5 animate-fade-in">
                       <div className="flex items-center gap-2 mb-3">
@@ -1313,42 +2829,66 @@ const App: React.FC = () => {
                        <div className="p-6">
                           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
                              {/* Stations loop */}
-                             {[GreenStation.TICKET, GreenStation.GREETER, GreenStation.PLANETARIUM, GreenStation.MUSEUM].map((station) => {
-                                let minReq = 0;
-                                if (station === GreenStation.TICKET) minReq = 2;
-                                if (station === GreenStation.GREETER) minReq = 1;
-                                if (station === GreenStation.PLANETARIUM) minReq = 1;
+                             {stationsByPriority.map((stationDef) => {
+                                const station = stationDef.id;
+                                const assigned = rot.assignments[station] || [];
+                                const isOverflow = stationDef.maxStaff === null;
                                 
                                 // Do not show missing warning if in past
-                                const showMissing = !isPast && rot.assignments[station].length < minReq && station !== GreenStation.MUSEUM;
+                                const showMissing = !isPast && assigned.length < stationDef.minStaff;
+                                const isFull = !isOverflow && assigned.length >= (stationDef.maxStaff ?? 0);
 
                                 return (
-                                 <div key={station} className={`space-y-2 ${station === GreenStation.MUSEUM ? 'lg:col-span-2' : ''}`}>
-                                    <div className={`text-xs font-bold uppercase tracking-wider px-2 py-1 rounded-md inline-block ${getStationLabelColor(station)}`}>
-                                      {rot.id === 3 && station === GreenStation.MUSEUM ? "Museum (Breaks)" : station}
+                                 <div key={station} className={`space-y-2 ${isOverflow ? 'lg:col-span-2' : ''}`}>
+                                    <div className="flex items-center gap-2">
+                                      <div className={`text-xs font-bold uppercase tracking-wider px-2 py-1 rounded-md inline-block ${getStationLabelColor(station)}`}>
+                                        {rot.lunchBreaks.length > 0 && isOverflow ? `${stationDef.name} (Breaks)` : stationDef.name}
+                                      </div>
+                                      {!isOverflow && (
+                                        <span className={`text-[10px] font-mono font-bold ${assigned.length > (stationDef.maxStaff ?? 0) ? 'text-amber-600' : 'text-slate-400'}`}>
+                                          {assigned.length}/{stationDef.maxStaff}
+                                        </span>
+                                      )}
                                     </div>
-                                    <StationDropZone rotationId={rot.id} station={station} isMissing={showMissing} className="flex flex-wrap gap-2 min-h-[80px] rounded-xl bg-slate-50/50 p-2 border border-slate-100">
-                                       {rot.assignments[station].map(id => (
+                                    <StationDropZone rotationId={rot.id} station={station} isMissing={showMissing} isFull={isFull} className="flex flex-wrap gap-2 min-h-[80px] rounded-xl bg-slate-50/50 p-2 border border-slate-100">
+                                       {assigned.map(id => (
                                           <div key={id} className={`rounded-lg border shadow-sm w-full md:w-auto min-w-[130px] ${getStationStyle(station)}`}>
-                                             {renderGreenEmployee(id, rot.timeRange, rot.id, station)}
+                                             {renderGreenEmployee(id, rot.id, station)}
                                           </div>
                                        ))}
                                        {showMissing && <div className="p-3 rounded-lg border border-dashed border-red-200 bg-red-50/50 text-red-400 text-xs font-medium text-center w-full">Missing Staff</div>}
-                                       {station === GreenStation.MUSEUM && rot.assignments[station].length === 0 && <div className="p-3 rounded-lg border border-dashed border-slate-200 text-slate-400 text-xs text-center w-full flex items-center justify-center">No staff assigned</div>}
+                                       {!showMissing && assigned.length === 0 && <div className="p-3 rounded-lg border border-dashed border-slate-200 text-slate-400 text-xs text-center w-full flex items-center justify-center">No staff assigned</div>}
                                     </StationDropZone>
                                  </div>
                                 )
                              })}
                           </div>
-                          {(rot.assignments[GreenStation.SIDE_TASK].length > 0) && (
+                          {(rot.assignments[GreenStation.SIDE_TASK].length > 0 || rot.lunchBreaks.length > 0) && (
                             <div className="mt-6 pt-4 border-t border-slate-100 grid grid-cols-1 md:grid-cols-2 gap-6">
+                               {rot.lunchBreaks.length > 0 && (
+                                  <div>
+                                     <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2 flex items-center gap-1"><Sandwich size={12} /> On Break</h4>
+                                     <div className="space-y-1.5">
+                                        {Array.from(new Set(rot.lunchBreaks.map(b => `${b.startTime} - ${b.endTime}`))).map(range => (
+                                           <div key={range} className="flex items-center gap-2 text-xs">
+                                              <span className="font-mono font-bold text-amber-800 bg-amber-50 border border-amber-200 px-2 py-0.5 rounded shrink-0">{range}</span>
+                                              <span className="text-slate-600 font-medium truncate">
+                                                 {rot.lunchBreaks.filter(b => `${b.startTime} - ${b.endTime}` === range).map(b =>
+                                                    b.coveredBy ? `${getGreenEmployeeName(b.employeeId)} (${getGreenEmployeeName(b.coveredBy)} covers ${getGreenStationName(b.station ?? null)})` : getGreenEmployeeName(b.employeeId)
+                                                 ).join(', ')}
+                                              </span>
+                                           </div>
+                                        ))}
+                                     </div>
+                                  </div>
+                               )}
                                {rot.assignments[GreenStation.SIDE_TASK].length > 0 && (
                                   <div>
                                      <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Busy (Side Task)</h4>
                                      <div className="flex flex-wrap gap-2">
                                         {rot.assignments[GreenStation.SIDE_TASK].map(id => (
                                            <span key={id} className="px-2 py-1 bg-slate-100 text-slate-600 rounded text-xs border border-slate-200 font-medium">
-                                              {renderGreenEmployee(id, rot.timeRange, rot.id, GreenStation.SIDE_TASK)}
+                                              {renderGreenEmployee(id, rot.id, GreenStation.SIDE_TASK)}
                                            </span>
                                         ))}
                                      </div>
@@ -1364,6 +2904,23 @@ const App: React.FC = () => {
             </div>
         )}
       </main>
+
+      {/* Assignment Explanation (from any rotation grid) */}
+      {explainedPlacement && (
+        <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-6" onClick={() => setExplainedPlacement(null)}>
+          <div className="w-full max-w-lg" onClick={(e) => e.stopPropagation()}>
+            <AssignmentExplanation
+              rotationId={explainedPlacement.rotationId}
+              employeeId={explainedPlacement.employeeId}
+              station={explainedPlacement.station}
+              explanation={explainedPlacement.schedule.explanations?.[`${explainedPlacement.rotationId}:${explainedPlacement.employeeId}`]}
+              stations={explainedPlacement.stations}
+              employeeNames={explainedPlacement.names}
+              onClose={() => setExplainedPlacement(null)}
+            />
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,89 @@
+import React from 'react';
+import { GreenStation, GreenStationDef, PlacementExplanation } from '../types';
+import { GREEN_STATION_PALETTE } from './stationColors';
+import { GREEN_RULE_LABELS } from '../services/greenRules';
+import { X } from 'lucide-react';
+
+interface Props {
+  rotationId: number;
+  employeeId: string;
+  station: string; // Where they are now; may differ from the explanation after a manual move
+  explanation?: PlacementExplanation;
+  stations: GreenStationDef[];
+  employeeNames?: Record<string, string>;
+  onClose: () => void;
+}
+
+const formatPoints = (points: number) => {
+  const rounded = Math.round(points * 10) / 10;
+  return `${rounded > 0 ? '+' : ''}${rounded.toLocaleString()}`;
+};
+
+// Why someone ended up on a station: how they got there and, when scored, every candidate's breakdown
+export const AssignmentExplanation: React.FC<Props> = ({ rotationId, employeeId, station, explanation, stations, employeeNames = {}, onClose }) => {
+  const getName = (id: string) => employeeNames[id] || id;
+  const stationDef = stations.find(st => st.id === station);
+  const stationName = stationDef?.name || station;
+
+  const summary = (() => {
+    if (!explanation) return 'No explanation was recorded for this placement.';
+    switch (explanation.reason) {
+      case 'scored': return `Picked for seat ${explanation.seat} of ${stationName} from ${explanation.candidates.length} candidate${explanation.candidates.length === 1 ? '' : 's'}. Lowest score wins; hard rule breaks count before score.`;
+      case 'locked': return `Locked on ${stationName} by a manual override.`;
+      case 'solver': return 'Placed by the exact solver so every hard rule holds across the whole day.';
+      case 'sideTask': return 'Has a side task this rotation.';
+      case 'offShift': return 'Off shift during this rotation, or here for less than the presence threshold.';
+      case 'uncertified': return `Not certified for any station with room left, so moved to ${GreenStation.SIDE_TASK}.`;
+      case 'partial': return `Only partly present, and no late-arrival station had room, so moved to ${GreenStation.SIDE_TASK}.`;
+      case 'frozen': return 'Kept as it was: this rotation had already started when someone was sent home.';
+    }
+  })();
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border border-slate-200 p-5 max-h-[80vh] overflow-y-auto custom-scrollbar">
+      <div className="flex items-start justify-between gap-4 mb-3">
+        <div>
+          <h3 className="font-bold text-slate-800">Why {getName(employeeId)} is on {stationName}</h3>
+          <p className="text-xs text-slate-400">Rotation {rotationId}</p>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X size={16} /></button>
+      </div>
+      <p className="text-xs text-slate-600 mb-4">{summary}</p>
+      {explanation && explanation.station !== station && (
+        <p className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-lg px-3 py-2 mb-4">
+          The generator put them on {stations.find(st => st.id === explanation.station)?.name || explanation.station}; they were moved here afterwards.
+        </p>
+      )}
+
+      {explanation && explanation.candidates.length > 0 && (
+        <div className="space-y-2">
+          {explanation.candidates.map((candidate, rank) => {
+            const isWinner = candidate.employeeId === explanation.employeeId;
+            return (
+              <div key={candidate.employeeId} className={`rounded-xl border p-3 text-xs ${isWinner ? 'border-emerald-300 bg-emerald-50/60' : 'border-slate-200'}`}>
+                <div className="flex items-center justify-between gap-2 mb-1.5">
+                  <span className="font-bold text-slate-700">
+                    #{rank + 1} {getName(candidate.employeeId)}
+                    {isWinner && <span className={`ml-2 px-1.5 py-0.5 rounded text-[10px] ${(GREEN_STATION_PALETTE[stationDef?.color || 'slate'] || GREEN_STATION_PALETTE.slate).label}`}>Picked</span>}
+                  </span>
+                  <span className="font-mono font-bold text-slate-700">{formatPoints(candidate.total)}</span>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {candidate.broken.map(rule => (
+                    <span key={rule} className="px-1.5 py-0.5 rounded bg-red-100 text-red-700 font-bold text-[10px]">Breaks {GREEN_RULE_LABELS[rule]}</span>
+                  ))}
+                  {candidate.terms.map((term, i) => (
+                    <span key={i} className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${term.points > 0 ? 'bg-amber-50 text-amber-700' : 'bg-emerald-50 text-emerald-700'}`}>
+                      {term.label} <span className="font-mono font-bold">{formatPoints(term.points)}</span>
+                    </span>
+                  ))}
+                  {candidate.terms.length === 0 && <span className="text-slate-400 text-[10px]">No penalties</span>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,10 @@
 
 import React from 'react';
-import { TimeBlock, StationType } from '../types';
+import { TimeBlock, StationType, CycleStep } from '../types';
+import { getBlueStationColors } from './stationColors';
+import { DEFAULT_CYCLE } from '../services/scheduler';
 import { format, differenceInMinutes, isBefore } from 'date-fns';
-import { Clock } from 'lucide-react';
+import { Clock, Lock, Unlock } from 'lucide-react';
 
 interface Props {
   employeeId: string;
@@ -12,35 +14,50 @@ interface Props {
   className?: string;
   currentTime?: Date;
   fadePastEvents?: boolean;
+  cycle?: CycleStep[];
+  // Manual overrides; blocks are only draggable and pinnable when these are provided
+  onBlockDrop?: (station: string, startTime: string) => void;
+  onTogglePin?: (block: TimeBlock) => void;
 }
 
-const getStationColor = (station: StationType) => {
-  switch (station) {
-    case StationType.SHOW:
-      return 'bg-blue-50 text-blue-900 border-l-[4px] border-blue-600';
-    case StationType.OCEAN:
-      return 'bg-teal-50 text-teal-900 border-l-[4px] border-teal-600';
-    case StationType.FLOOR_MINUS_1:
-      return 'bg-rose-50 text-rose-900 border-l-[4px] border-rose-600';
-    default:
-      return 'bg-slate-50 text-slate-900 border-l-[4px] border-slate-500';
-  }
-};
+const getStationColor = (station: string, cycle: CycleStep[]) => getBlueStationColors(station, cycle).card;
+
+export const EmployeeCard: React.FC<Props> = ({ employeeId, employeeName, blocks, onClose, className = '', currentTime, fadePastEvents = true, cycle = DEFAULT_CYCLE, onBlockDrop, onTogglePin }) => {
+  const [isOver, setIsOver] = React.useState(false);
 
-export const EmployeeCard: React.FC<Props> = ({ employeeId, employeeName, blocks, onClose, className = '', currentTime, fadePastEvents = true }) => {
   // Sort blocks by start time to ensure chronological order
   const sortedBlocks = [...blocks].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
   
-  // Calculate total active minutes
-  const totalMinutes = sortedBlocks.reduce((acc, block) => acc + differenceInMinutes(block.endTime, block.startTime), 0);
+  const stationBlocks = sortedBlocks.filter(b => b.station !== StationType.LUNCH);
+
+  // Calculate total active minutes (lunch is not active time)
+  const totalMinutes = stationBlocks.reduce((acc, block) => acc + differenceInMinutes(block.endTime, block.startTime), 0);
   const hours = Math.floor(totalMinutes / 60);
   const mins = totalMinutes % 60;
 
-  // Calculate Rotations (1 Rotation = 3 Stations)
-  const rotations = (sortedBlocks.length / 3).toFixed(1);
+  // Calculate Rotations (1 Rotation = one pass through the cycle)
+  const rotations = (stationBlocks.length / Math.max(1, cycle.length)).toFixed(1);
 
   return (
-    <div className={`bg-white rounded-xl shadow-sm hover:shadow-md transition-shadow border border-slate-200 overflow-hidden flex flex-col ${className}`}>
+    <div
+      className={`bg-white rounded-xl shadow-sm hover:shadow-md transition-shadow border overflow-hidden flex flex-col ${isOver ? 'border-blue-400 ring-2 ring-blue-200' : 'border-slate-200'} ${className}`}
+      onDragOver={onBlockDrop ? (e) => {
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        if (!isOver) setIsOver(true);
+      } : undefined}
+      onDragLeave={onBlockDrop ? () => setIsOver(false) : undefined}
+      onDrop={onBlockDrop ? (e) => {
+        e.preventDefault();
+        setIsOver(false);
+        try {
+          const { station, startTime } = JSON.parse(e.dataTransfer.getData('application/json'));
+          if (station && startTime) onBlockDrop(station, startTime);
+        } catch (err) {
+          console.error("Drop failed", err);
+        }
+      } : undefined}
+    >
       {/* Header */}
       <div className="bg-slate-800 px-3 py-2.5 flex justify-between items-center text-white sticky top-0 z-10 shrink-0">
         <div className="flex items-center gap-3 min-w-0">
@@ -76,10 +93,16 @@ export const EmployeeCard: React.FC<Props> = ({ employeeId, employeeName, blocks
             sortedBlocks.map((block) => {
                 const isPast = currentTime ? isBefore(block.endTime, currentTime) : false;
                 const shouldFade = isPast && fadePastEvents;
+                const isMovable = !!onBlockDrop && block.station !== StationType.LUNCH;
                 return (
                     <div 
                         key={block.id} 
-                        className={`p-2 rounded-md shadow-sm flex justify-between items-center group hover:bg-white transition-all ${getStationColor(block.station)} ${shouldFade ? 'opacity-40 grayscale' : 'opacity-100'}`}
+                        draggable={isMovable}
+                        onDragStart={isMovable ? (e) => {
+                          e.dataTransfer.setData('application/json', JSON.stringify({ station: block.station, startTime: format(block.startTime, 'HH:mm') }));
+                          e.dataTransfer.effectAllowed = 'move';
+                        } : undefined}
+                        className={`p-2 rounded-md shadow-sm flex justify-between items-center group hover:bg-white transition-all ${getStationColor(block.station, cycle)} ${shouldFade ? 'opacity-40 grayscale' : 'opacity-100'} ${isMovable ? 'cursor-grab active:cursor-grabbing' : ''} ${block.pinned ? 'ring-1 ring-slate-400' : ''}`}
                     >
                         <div className="flex flex-col min-w-0">
                             <span className="font-bold text-[9px] uppercase tracking-wider opacity-70 mb-0.5 truncate">
@@ -91,8 +114,19 @@ export const EmployeeCard: React.FC<Props> = ({ employeeId, employeeName, blocks
                                 {format(block.endTime, 'HH:mm')}
                             </span>
                         </div>
-                        <div className="text-right opacity-0 group-hover:opacity-100 transition-opacity text-[9px] font-bold bg-white/50 px-1.5 py-0.5 rounded text-slate-600 ml-2 whitespace-nowrap">
-                        {differenceInMinutes(block.endTime, block.startTime)}m
+                        <div className="flex items-center gap-1 ml-2">
+                          <div className="text-right opacity-0 group-hover:opacity-100 transition-opacity text-[9px] font-bold bg-white/50 px-1.5 py-0.5 rounded text-slate-600 whitespace-nowrap">
+                          {differenceInMinutes(block.endTime, block.startTime)}m
+                          </div>
+                          {onTogglePin && block.station !== StationType.LUNCH && (
+                            <button
+                              onClick={() => onTogglePin(block)}
+                              title={block.pinned ? 'Pinned. Click to unpin.' : 'Click to pin this block to this employee.'}
+                              className={`p-0.5 rounded hover:bg-white/60 transition-colors ${block.pinned ? 'text-slate-600' : 'text-slate-400/60 opacity-0 group-hover:opacity-100'}`}
+                            >
+                              {block.pinned ? <Lock size={11} /> : <Unlock size={11} />}
+                            </button>
+                          )}
                         </div>
                     </div>
                 );
@@ -0,0 +1,84 @@
+import React from 'react';
+import { GreenStationDef, StationTally } from '../types';
+import { GREEN_STATION_PALETTE } from './stationColors';
+import { sortStations } from '../services/greenScheduler';
+
+interface Props {
+  tally: StationTally; // Rotations per person per station over the range
+  stations: GreenStationDef[];
+  dayCount: number; // Published days the tally covers
+  employeeNames?: Record<string, string>;
+}
+
+// One row per person, one column per station; the busiest cell in each column is darkest
+export const FairnessReport: React.FC<Props> = ({ tally, stations, dayCount, employeeNames = {} }) => {
+  const getName = (id: string) => employeeNames[id] || id;
+  const columns = sortStations(stations);
+  const rows = Object.keys(tally).sort((a, b) => getName(a).localeCompare(getName(b)));
+
+  if (rows.length === 0) {
+    return <p className="text-xs text-slate-400">No published Green rotations in this range.</p>;
+  }
+
+  const countOf = (empId: string, station: string) => tally[empId]?.[station] || 0;
+  const columnStats = columns.map(st => {
+    const counts = rows.map(id => countOf(id, st.id));
+    return { id: st.id, min: Math.min(...counts), max: Math.max(...counts) };
+  });
+
+  const shade = (count: number, max: number) => {
+    if (count === 0 || max === 0) return 'text-slate-300';
+    const ratio = count / max;
+    if (ratio > 0.75) return 'bg-slate-700 text-white';
+    if (ratio > 0.5) return 'bg-slate-400 text-white';
+    if (ratio > 0.25) return 'bg-slate-200 text-slate-800';
+    return 'bg-slate-100 text-slate-700';
+  };
+
+  return (
+    <div className="overflow-x-auto custom-scrollbar border border-slate-200 rounded-xl bg-white">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="bg-slate-50 border-b border-slate-200">
+            <th className="px-3 py-2 text-left font-bold text-slate-500">Person · {dayCount} days</th>
+            {columns.map(st => (
+              <th key={st.id} className="px-3 py-2 text-center">
+                <span className={`px-2 py-0.5 rounded text-[10px] font-bold ${(GREEN_STATION_PALETTE[st.color] || GREEN_STATION_PALETTE.slate).label}`}>{st.name}</span>
+              </th>
+            ))}
+            <th className="px-3 py-2 text-center font-bold text-slate-500">Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(empId => (
+            <tr key={empId} className="border-t border-slate-100">
+              <td className="px-3 py-1.5 font-bold text-slate-700 whitespace-nowrap">{getName(empId)}</td>
+              {columns.map((st, i) => {
+                const count = countOf(empId, st.id);
+                return (
+                  <td key={st.id} className="px-1 py-1 text-center">
+                    <span className={`inline-block min-w-[28px] px-1.5 py-0.5 rounded font-mono font-bold ${shade(count, columnStats[i].max)}`}>{count}</span>
+                  </td>
+                );
+              })}
+              <td className="px-3 py-1.5 text-center font-mono font-bold text-slate-500">
+                {Object.values(tally[empId] || {}).reduce((acc, n) => acc + n, 0)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr className="border-t border-slate-200 bg-slate-50">
+            <td className="px-3 py-2 text-[10px] font-bold uppercase tracking-wide text-slate-400">Spread (min–max)</td>
+            {columnStats.map(stat => (
+              <td key={stat.id} className={`px-3 py-2 text-center font-mono font-bold ${stat.max - stat.min > 2 ? 'text-amber-600' : 'text-slate-500'}`}>
+                {stat.min}–{stat.max}
+              </td>
+            ))}
+            <td></td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React from 'react';
+import { GeneratedGreenSchedule, GreenCandidate, GreenStationDef } from '../types';
+import { GREEN_STATION_PALETTE } from './stationColors';
+import { sortStations, getPlacements, countAssignmentChanges } from '../services/greenScheduler';
+import { Lock, Shuffle, X } from 'lucide-react';
+
+interface Props {
+  candidates: GreenCandidate[]; // Best first
+  current: GeneratedGreenSchedule; // Schedule on screen, the baseline for the diff
+  stations: GreenStationDef[];
+  currentSeed: number;
+  employeeNames?: Record<string, string>;
+  onUseSeed: (seed: number) => void;
+  onLock: (candidate: GreenCandidate) => void;
+  onClose: () => void;
+}
+
+// Top candidates side by side; people placed differently from the current schedule are highlighted
+export const GreenCandidates: React.FC<Props> = ({ candidates, current, stations, currentSeed, employeeNames = {}, onUseSeed, onLock, onClose }) => {
+  const getName = (id: string) => employeeNames[id] || id;
+  const currentPlacements = getPlacements(current);
+  const columns = sortStations(stations);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-5">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-bold text-slate-700">Best {candidates.length} Candidates</h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X size={16} /></button>
+      </div>
+      <div className={`grid grid-cols-1 gap-4 ${candidates.length > 1 ? 'xl:grid-cols-3' : ''}`}>
+        {candidates.map((candidate, rank) => {
+          const { score, schedule, seed } = candidate;
+          const changes = countAssignmentChanges(current, schedule);
+          return (
+            <div key={seed} className="border border-slate-200 rounded-xl overflow-hidden flex flex-col">
+              <div className="bg-slate-50 px-4 py-3 border-b border-slate-100 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="font-bold text-slate-800">#{rank + 1} · Seed {seed}</span>
+                  {seed === currentSeed && <span className="text-[10px] font-bold uppercase tracking-wide text-emerald-600">On screen</span>}
+                </div>
+                <div className="flex flex-wrap gap-1 text-[10px] font-bold">
+                  <span className={`px-1.5 py-0.5 rounded ${score.critical > 0 ? 'bg-red-100 text-red-700' : 'bg-slate-100 text-slate-500'}`}>{score.critical} critical</span>
+                  <span className={`px-1.5 py-0.5 rounded ${score.warning > 0 ? 'bg-amber-100 text-amber-700' : 'bg-slate-100 text-slate-500'}`}>{score.warning} warnings</span>
+                  <span className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-500">{score.repeats} repeats</span>
+                  <span className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-500">spread {score.fairness}</span>
+                  <span className="px-1.5 py-0.5 rounded bg-blue-50 text-blue-600">{changes} changes</span>
+                </div>
+              </div>
+              <div className="p-3 space-y-2 text-[11px] flex-1">
+                {schedule.rotations.map(rotation => (
+                  <div key={rotation.id} className="grid grid-cols-[28px_1fr] gap-2 items-start">
+                    <span className="font-bold text-slate-400 pt-0.5">R{rotation.id}</span>
+                    <div className="flex flex-wrap gap-1">
+                      {columns.map(st => (rotation.assignments[st.id] || []).map(empId => {
+                        const moved = currentPlacements[`${rotation.id}:${empId}`] !== st.id;
+                        return (
+                          <span
+                            key={`${st.id}-${empId}`}
+                            className={`px-1.5 py-0.5 rounded font-medium ${(GREEN_STATION_PALETTE[st.color] || GREEN_STATION_PALETTE.slate).label} ${moved ? 'ring-2 ring-blue-400 font-bold' : ''}`}
+                            title={`${st.name}${moved ? ' (changed)' : ''}`}
+                          >
+                            {getName(empId)}
+                          </span>
+                        );
+                      }))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-2 p-3 border-t border-slate-100">
+                <button onClick={() => onUseSeed(seed)} className="flex-1 inline-flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg bg-emerald-600 text-white text-xs font-bold hover:bg-emerald-700 transition-colors">
+                  <Shuffle size={14} /> Use Seed
+                </button>
+                <button onClick={() => onLock(candidate)} className="flex-1 inline-flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg bg-slate-100 text-slate-700 text-xs font-bold hover:bg-slate-200 transition-colors" title="Keep every placement as a manual override">
+                  <Lock size={14} /> Lock In
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React from 'react';
+import { GreenRotation, GreenStation, GreenStationDef } from '../types';
+import { GREEN_STATION_PALETTE } from './stationColors';
+import { sortStations } from '../services/greenScheduler';
+import { Clock, Sandwich } from 'lucide-react';
+
+interface Props {
+  rotations: GreenRotation[];
+  stations: GreenStationDef[]; // Catalogue the rotations were generated with
+  employeeNames?: Record<string, string>;
+  onSelect?: (rotationId: number, employeeId: string, station: string) => void; // Makes names clickable
+}
+
+// Read-only Green rotations, laid out like the live rotation view
+export const RotationGrid: React.FC<Props> = ({ rotations, stations, employeeNames = {}, onSelect }) => {
+  const getName = (id: string) => employeeNames[id] || id;
+  const colorsFor = (def: GreenStationDef) => GREEN_STATION_PALETTE[def.color] || GREEN_STATION_PALETTE.slate;
+
+  return (
+    <div className="space-y-4">
+      {rotations.map(rot => (
+        <div key={rot.id} className="bg-white rounded-2xl border border-slate-200 overflow-hidden">
+          <div className="bg-slate-50 px-5 py-3 border-b border-slate-100 flex items-center gap-4">
+            <div className="font-bold px-3 py-1 rounded-lg text-sm bg-emerald-100 text-emerald-800">Rotation {rot.id}</div>
+            <div className="flex items-center gap-2 text-slate-500 text-sm font-medium">
+              <Clock size={16} />
+              {rot.timeRange}
+            </div>
+          </div>
+          <div className="p-5">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+              {sortStations(stations).map(def => {
+                const assigned = rot.assignments[def.id] || [];
+                return (
+                  <div key={def.id} className={`space-y-2 ${def.maxStaff === null ? 'lg:col-span-2' : ''}`}>
+                    <div className={`text-xs font-bold uppercase tracking-wider px-2 py-1 rounded-md inline-block ${colorsFor(def).label}`}>{def.name}</div>
+                    <div className="flex flex-wrap gap-2 min-h-[44px] rounded-xl bg-slate-50/50 p-2 border border-slate-100">
+                      {assigned.map(id => (
+                        onSelect
+                          ? <button key={id} onClick={() => onSelect(rot.id, id, def.id)} className={`px-3 py-1.5 rounded-lg border text-xs font-bold hover:shadow-sm transition-shadow ${colorsFor(def).zone}`} title="Why here?">{getName(id)}</button>
+                          : <span key={id} className={`px-3 py-1.5 rounded-lg border text-xs font-bold ${colorsFor(def).zone}`}>{getName(id)}</span>
+                      ))}
+                      {assigned.length === 0 && <span className="text-slate-400 text-xs self-center">No staff assigned</span>}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            {(rot.assignments[GreenStation.SIDE_TASK]?.length > 0 || rot.lunchBreaks.length > 0) && (
+              <div className="mt-4 pt-3 border-t border-slate-100 grid grid-cols-1 md:grid-cols-2 gap-4 text-xs">
+                {rot.lunchBreaks.length > 0 && (
+                  <div>
+                    <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2 flex items-center gap-1"><Sandwich size={12} /> On Break</h4>
+                    <div className="space-y-1.5">
+                      {rot.lunchBreaks.map(b => (
+                        <div key={b.employeeId} className="flex items-center gap-2">
+                          <span className="font-mono font-bold text-amber-800 bg-amber-50 border border-amber-200 px-2 py-0.5 rounded shrink-0">{b.startTime} - {b.endTime}</span>
+                          <span className="text-slate-600 font-medium truncate">{getName(b.employeeId)}</span>
+                          {b.coveredBy && (
+                            <span className="text-slate-400 truncate">{getName(b.coveredBy)} covers {stations.find(st => st.id === b.station)?.name || b.station}</span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {rot.assignments[GreenStation.SIDE_TASK]?.length > 0 && (
+                  <div>
+                    <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Busy (Side Task)</h4>
+                    <div className="flex flex-wrap gap-2">
+                      {rot.assignments[GreenStation.SIDE_TASK].map(id => (
+                        <span key={id} className="px-2 py-1 bg-slate-100 text-slate-600 rounded border border-slate-200 font-medium">{getName(id)}</span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -1,22 +1,29 @@
 
-import React from 'react';
-import { GeneratedSchedule } from '../types';
+import React, { useState } from 'react';
+import { GeneratedSchedule, CycleStep } from '../types';
 import { TimelineBlock } from './TimelineBlock';
 import { differenceInMinutes, addMinutes, format, startOfDay, parse } from 'date-fns';
+import { ZoomIn, ZoomOut } from 'lucide-react';
 
 interface Props {
   schedule: GeneratedSchedule;
-  config: { firstShowTime: string; lastShowTime: string };
+  config: { firstShowTime: string; lastShowTime: string; cycle?: CycleStep[] };
   onEmployeeClick: (empId: string) => void;
   currentTime?: Date;
+  employeeNames?: Record<string, string>;
+  employeeIds?: string[]; // Row order; defaults to everyone with a block
+  onBlockDrop?: (employeeId: string, station: string, startTime: string) => void; // Makes blocks draggable between rows
 }
 
-export const ScheduleVis: React.FC<Props> = ({ schedule, config, onEmployeeClick, currentTime }) => {
-  // Increased zoom level for better visibility
-  const pixelsPerMinute = 3; 
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 6;
+
+export const ScheduleVis: React.FC<Props> = ({ schedule, config, onEmployeeClick, currentTime, employeeNames = {}, employeeIds, onBlockDrop }) => {
+  const [pixelsPerMinute, setPixelsPerMinute] = useState(3);
+  const [dropRow, setDropRow] = useState<string | null>(null);
 
   // Determine timeline bounds
-  const baseDate = startOfDay(new Date());
+  const baseDate = startOfDay(schedule.showStartTimes[0] ?? new Date());
   const start = parse(config.firstShowTime, 'HH:mm', baseDate);
   const end = addMinutes(parse(config.lastShowTime, 'HH:mm', baseDate), 90); // Extra buffer at end
   
@@ -31,7 +38,14 @@ export const ScheduleVis: React.FC<Props> = ({ schedule, config, onEmployeeClick
     t = addMinutes(t, 30);
   }
   
-  const employees = Array.from(new Set(schedule.blocks.map(b => b.employeeId))).sort();
+  const employees = employeeIds || Array.from(new Set(schedule.blocks.map(b => b.employeeId))).sort();
+
+  // One lane per station with gaps: cycle stations first, then anything else that was reported
+  const missingIssues = schedule.issues.filter(i => i.missing);
+  const issueStations = Array.from(new Set([
+    ...(config.cycle || []).map(step => step.station),
+    ...missingIssues.map(i => i.station)
+  ])).filter(station => missingIssues.some(i => i.station === station));
   
   // Calculate current time line position
   let currentTimeLeft = -1;
@@ -43,90 +57,156 @@ export const ScheduleVis: React.FC<Props> = ({ schedule, config, onEmployeeClick
   }
 
   return (
-    <div className="overflow-x-auto custom-scrollbar border border-slate-200 rounded-xl bg-white shadow-md">
-      <div className="relative min-w-[800px]" style={{ width: `${Math.max(1200, totalWidth + 120)}px` }}>
+    <div className="border border-slate-200 rounded-xl bg-white shadow-md overflow-hidden">
+      {/* Zoom */}
+      <div className="flex items-center justify-end gap-2 px-4 py-2 border-b border-slate-200 bg-white">
+        <button onClick={() => setPixelsPerMinute(z => Math.max(MIN_ZOOM, z - 0.5))} disabled={pixelsPerMinute <= MIN_ZOOM} className="text-slate-400 hover:text-slate-700 disabled:opacity-30" title="Zoom out">
+          <ZoomOut size={16} />
+        </button>
+        <input
+          type="range"
+          min={MIN_ZOOM}
+          max={MAX_ZOOM}
+          step={0.5}
+          value={pixelsPerMinute}
+          onChange={(e) => setPixelsPerMinute(parseFloat(e.target.value))}
+          className="w-32 accent-blue-600"
+        />
+        <button onClick={() => setPixelsPerMinute(z => Math.min(MAX_ZOOM, z + 0.5))} disabled={pixelsPerMinute >= MAX_ZOOM} className="text-slate-400 hover:text-slate-700 disabled:opacity-30" title="Zoom in">
+          <ZoomIn size={16} />
+        </button>
+      </div>
+      <div className="overflow-x-auto custom-scrollbar">
+        <div className="relative min-w-[800px]" style={{ width: `${Math.max(800, totalWidth + 120)}px` }}>
         
-        {/* Header - Time Axis */}
-        <div className="h-14 border-b border-slate-200 bg-slate-50 sticky top-0 z-30 flex items-end">
-          <div className="w-24 sticky left-0 bg-slate-50 z-40 border-r border-slate-200 text-sm font-bold text-slate-600 p-2 flex items-center justify-center shadow-[4px_0_10px_rgba(0,0,0,0.02)]">
-            Staff
-          </div>
-          <div className="relative flex-1 h-full">
-            {markers.map((time, i) => {
-              const left = differenceInMinutes(time, start) * pixelsPerMinute;
-              return (
-                <div 
-                  key={i} 
-                  className="absolute bottom-0 text-xs font-bold text-slate-500 border-l-2 border-slate-300 pl-2 h-6 flex items-center"
-                  style={{ left: `${left}px` }}
-                >
-                  {format(time, 'HH:mm')}
-                </div>
-              );
-            })}
-            {/* Current Time Indicator on Header */}
-            {currentTimeLeft >= 0 && (
-                <div 
-                    className="absolute bottom-0 h-4 w-0 border-l-2 border-red-500 z-50 flex flex-col items-center"
-                    style={{ left: `${currentTimeLeft}px` }}
-                >
-                    <div className="w-2 h-2 rounded-full bg-red-500 -mb-1"></div>
-                </div>
-            )}
-          </div>
-        </div>
-
-        {/* Rows per Employee */}
-        <div className="relative bg-white">
-          {/* Vertical grid lines */}
-          <div className="absolute inset-0 z-0 pointer-events-none">
-             {markers.map((time, i) => {
-                const left = differenceInMinutes(time, start) * pixelsPerMinute + 96; // +96 for sidebar (w-24)
+          {/* Header - Time Axis */}
+          <div className="h-14 border-b border-slate-200 bg-slate-50 sticky top-0 z-30 flex items-end">
+            <div className="w-24 sticky left-0 bg-slate-50 z-40 border-r border-slate-200 text-sm font-bold text-slate-600 p-2 flex items-center justify-center shadow-[4px_0_10px_rgba(0,0,0,0.02)]">
+              Staff
+            </div>
+            <div className="relative flex-1 h-full">
+              {markers.map((time, i) => {
+                const left = differenceInMinutes(time, start) * pixelsPerMinute;
                 return (
                   <div 
-                    key={`line-${i}`} 
-                    className="absolute top-0 bottom-0 border-r border-dashed border-slate-200"
-                    style={{ left: `${left - 96}px` }} // Adjust for relative parent
-                  />
+                    key={i} 
+                    className="absolute bottom-0 text-xs font-bold text-slate-500 border-l-2 border-slate-300 pl-2 h-6 flex items-center"
+                    style={{ left: `${left}px` }}
+                  >
+                    {format(time, 'HH:mm')}
+                  </div>
                 );
               })}
-              {/* Current Time Vertical Line */}
+              {/* Current Time Indicator on Header */}
               {currentTimeLeft >= 0 && (
-                <div 
-                    className="absolute top-0 bottom-0 border-r-2 border-red-500 z-10 pointer-events-none opacity-50"
-                    style={{ left: `${currentTimeLeft}px` }} 
-                />
+                  <div 
+                      className="absolute bottom-0 h-4 w-0 border-l-2 border-red-500 z-50 flex flex-col items-center"
+                      style={{ left: `${currentTimeLeft}px` }}
+                  >
+                      <div className="w-2 h-2 rounded-full bg-red-500 -mb-1"></div>
+                  </div>
               )}
+            </div>
           </div>
 
-          {employees.map((empId, index) => {
-            const empBlocks = schedule.blocks.filter(b => b.employeeId === empId);
-            return (
-              <div key={empId} className={`flex h-20 border-b border-slate-100 hover:bg-blue-50/30 transition-colors ${index % 2 === 0 ? 'bg-white' : 'bg-slate-50/50'}`}>
-                {/* Fixed Label Column */}
-                <button 
+          {/* Rows per Employee */}
+          <div className="relative bg-white">
+            {/* Vertical grid lines */}
+            <div className="absolute inset-0 z-0 pointer-events-none">
+               {markers.map((time, i) => {
+                  const left = differenceInMinutes(time, start) * pixelsPerMinute + 96; // +96 for sidebar (w-24)
+                  return (
+                    <div 
+                      key={`line-${i}`} 
+                      className="absolute top-0 bottom-0 border-r border-dashed border-slate-200"
+                      style={{ left: `${left - 96}px` }} // Adjust for relative parent
+                    />
+                  );
+                })}
+                {/* Current Time Vertical Line */}
+                {currentTimeLeft >= 0 && (
+                  <div 
+                      className="absolute top-0 bottom-0 border-r-2 border-red-500 z-10 pointer-events-none opacity-50"
+                      style={{ left: `${currentTimeLeft}px` }} 
+                  />
+                )}
+            </div>
+
+            {employees.map((empId, index) => {
+              const empBlocks = schedule.blocks.filter(b => b.employeeId === empId);
+              return (
+                <div
+                  key={empId}
                   onClick={() => onEmployeeClick(empId)}
-                  className="w-24 flex-shrink-0 sticky left-0 z-20 border-r border-slate-200 flex items-center justify-center text-lg font-bold text-slate-700 bg-inherit shadow-[4px_0_10px_rgba(0,0,0,0.02)] hover:bg-slate-100 hover:text-blue-600 cursor-pointer transition-colors group"
-                  title="Click to view full day card"
+                  onDragOver={onBlockDrop ? (e) => {
+                    e.preventDefault();
+                    e.dataTransfer.dropEffect = 'move';
+                    if (dropRow !== empId) setDropRow(empId);
+                  } : undefined}
+                  onDragLeave={onBlockDrop ? () => setDropRow(null) : undefined}
+                  onDrop={onBlockDrop ? (e) => {
+                    e.preventDefault();
+                    setDropRow(null);
+                    try {
+                      const { station, startTime } = JSON.parse(e.dataTransfer.getData('application/json'));
+                      if (station && startTime) onBlockDrop(empId, station, startTime);
+                    } catch (err) {
+                      console.error("Drop failed", err);
+                    }
+                  } : undefined}
+                  className={`flex h-20 border-b border-slate-100 hover:bg-blue-50/30 transition-colors cursor-pointer ${index % 2 === 0 ? 'bg-white' : 'bg-slate-50/50'} ${dropRow === empId ? 'ring-2 ring-inset ring-blue-300' : ''}`}
                 >
-                  <span className="group-hover:scale-110 transition-transform">{empId}</span>
-                </button>
+                  {/* Fixed Label Column */}
+                  <button 
+                    className="w-24 flex-shrink-0 sticky left-0 z-20 border-r border-slate-200 flex items-center justify-center text-lg font-bold text-slate-700 bg-inherit shadow-[4px_0_10px_rgba(0,0,0,0.02)] hover:bg-slate-100 hover:text-blue-600 cursor-pointer transition-colors group"
+                    title="Click to view full day card"
+                  >
+                    <span className="flex flex-col items-center leading-tight group-hover:scale-110 transition-transform min-w-0 px-1">
+                      <span>{empId}</span>
+                      {employeeNames[empId] && <span className="text-[10px] font-semibold text-slate-500 truncate max-w-[5.5rem]">{employeeNames[empId]}</span>}
+                    </span>
+                  </button>
                 
-                {/* Timeline Area */}
-                <div className="relative flex-1 h-full pointer-events-none">
-                   {empBlocks.map(block => (
-                     <TimelineBlock 
-                        key={block.id} 
-                        block={block} 
-                        dayStart={start} 
-                        pixelsPerMinute={pixelsPerMinute} 
-                        currentTime={currentTime}
-                      />
-                   ))}
+                  {/* Timeline Area */}
+                  <div className="relative flex-1 h-full pointer-events-none">
+                     {empBlocks.map(block => (
+                       <TimelineBlock 
+                          key={block.id} 
+                          block={block} 
+                          dayStart={start} 
+                          pixelsPerMinute={pixelsPerMinute} 
+                          currentTime={currentTime}
+                          cycle={config.cycle}
+                          draggable={!!onBlockDrop}
+                        />
+                     ))}
+                  </div>
+                </div>
+              );
+            })}
+
+            {/* Coverage gaps per station */}
+            {issueStations.map(station => (
+              <div key={`issues-${station}`} className="flex h-8 border-b border-rose-100 bg-rose-50/40">
+                <div className="w-24 flex-shrink-0 sticky left-0 z-20 border-r border-slate-200 bg-rose-50 flex items-center justify-center text-[10px] font-bold text-rose-700 uppercase tracking-wide truncate px-1">
+                  {station}
+                </div>
+                <div className="relative flex-1 h-full">
+                  {missingIssues.filter(i => i.station === station).map((issue, idx) => (
+                    <div
+                      key={idx}
+                      className="absolute top-1.5 bottom-1.5 rounded bg-red-500/70 border border-red-600 z-10"
+                      style={{
+                        left: `${differenceInMinutes(issue.startTime, start) * pixelsPerMinute}px`,
+                        width: `${Math.max(2, differenceInMinutes(issue.endTime, issue.startTime) * pixelsPerMinute)}px`
+                      }}
+                      title={issue.message}
+                    />
+                  ))}
                 </div>
               </div>
-            );
-          })}
+            ))}
+          </div>
         </div>
       </div>
     </div>
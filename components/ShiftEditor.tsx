@@ -0,0 +1,35 @@
+import React from 'react';
+import { ShiftException } from '../types';
+import { ArrowRight, Plus, Trash2 } from 'lucide-react';
+
+interface Props {
+  employeeId: string;
+  shifts: ShiftException[]; // Everyone's windows; only this person's are shown
+  onAdd: (employeeId: string) => void;
+  onRemove: (id: string) => void;
+  onUpdate: (id: string, field: 'startTime' | 'endTime', value: string) => void;
+}
+
+// One person's shift windows. The same editor serves both teams, since the windows belong to the person.
+export const ShiftEditor: React.FC<Props> = ({ employeeId, shifts, onAdd, onRemove, onUpdate }) => {
+  const windows = shifts.filter(ex => ex.employeeId === employeeId);
+
+  return (
+    <div className="bg-white px-2 py-2 rounded-lg border border-slate-200 shadow-inner w-full space-y-1.5">
+      <div className="flex items-center justify-between">
+        <span className="text-[9px] font-bold text-slate-400 uppercase tracking-wide">
+          {windows.length === 0 ? 'All day' : windows.length > 1 ? `Split shift · ${windows.length} windows` : 'Custom hours'}
+        </span>
+        <button onClick={() => onAdd(employeeId)} className="text-slate-400 hover:text-slate-700 transition-colors" title="Add a window"><Plus size={12} /></button>
+      </div>
+      {windows.map(ex => (
+        <div key={ex.id} className="flex items-center gap-1.5">
+          <input type="text" placeholder="09:00" value={ex.startTime} onChange={(e) => onUpdate(ex.id, 'startTime', e.target.value)} className="w-full text-center text-sm font-mono font-bold text-slate-700 bg-slate-50 rounded border border-slate-200 focus:border-slate-400 py-1" />
+          <ArrowRight className="text-slate-300 shrink-0" size={14} />
+          <input type="text" placeholder="17:00" value={ex.endTime} onChange={(e) => onUpdate(ex.id, 'endTime', e.target.value)} className="w-full text-center text-sm font-mono font-bold text-slate-700 bg-slate-50 rounded border border-slate-200 focus:border-slate-400 py-1" />
+          <button onClick={() => onRemove(ex.id)} className="text-rose-300 hover:text-rose-600 shrink-0" title="Remove this window"><Trash2 size={12} /></button>
+        </div>
+      ))}
+    </div>
+  );
+};
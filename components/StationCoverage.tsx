@@ -0,0 +1,137 @@
+import React from 'react';
+import { StationLane, StationCoverageWindow } from '../types';
+import { BLUE_STATION_PALETTE } from './stationColors';
+import { differenceInMinutes, addMinutes, format, isBefore } from 'date-fns';
+
+interface Props {
+  lanes: StationLane[];
+  employeeNames?: Record<string, string>;
+  currentTime?: Date;
+}
+
+const PIXELS_PER_MINUTE = 2.5;
+
+// Windows of one station can overlap (e.g. a 30 min show every 20 min), so each lane
+// is split into as many tracks as needed to keep overlapping windows apart.
+const toTracks = (windows: StationCoverageWindow[]): StationCoverageWindow[][] => {
+  const tracks: StationCoverageWindow[][] = [];
+  windows.forEach(w => {
+    const track = tracks.find(t => !isBefore(w.startTime, t[t.length - 1].endTime));
+    if (track) {
+      track.push(w);
+    } else {
+      tracks.push([w]);
+    }
+  });
+  return tracks;
+};
+
+export const StationCoverage: React.FC<Props> = ({ lanes, employeeNames = {}, currentTime }) => {
+  const allWindows = lanes.flatMap(l => l.windows);
+  if (allWindows.length === 0) return null;
+
+  const start = allWindows.reduce((min, w) => isBefore(w.startTime, min) ? w.startTime : min, allWindows[0].startTime);
+  const end = allWindows.reduce((max, w) => isBefore(max, w.endTime) ? w.endTime : max, allWindows[0].endTime);
+  const totalMinutes = differenceInMinutes(end, start);
+
+  // Time markers every 30 mins
+  const markers: Date[] = [];
+  for (let t = start; differenceInMinutes(t, end) <= 0; t = addMinutes(t, 30)) {
+    markers.push(t);
+  }
+
+  const nowMinutes = currentTime ? differenceInMinutes(currentTime, start) : -1;
+  const isNow = (w: StationCoverageWindow) =>
+    !!currentTime && !isBefore(currentTime, w.startTime) && isBefore(currentTime, w.endTime);
+
+  const getName = (id: string) => employeeNames[id] || id;
+
+  return (
+    <div className="overflow-x-auto custom-scrollbar border border-slate-200 rounded-xl bg-white shadow-md">
+      <div className="relative" style={{ width: `${totalMinutes * PIXELS_PER_MINUTE + 160}px` }}>
+
+        {/* Header - Time Axis */}
+        <div className="h-10 border-b border-slate-200 bg-slate-50 flex items-end">
+          <div className="w-40 shrink-0 sticky left-0 bg-slate-50 z-30 border-r border-slate-200 h-full text-sm font-bold text-slate-600 p-2 flex items-center">
+            Station
+          </div>
+          <div className="relative flex-1 h-full">
+            {markers.map((time, i) => (
+              <div
+                key={i}
+                className="absolute bottom-0 text-xs font-bold text-slate-500 border-l-2 border-slate-300 pl-2 h-6 flex items-center"
+                style={{ left: `${differenceInMinutes(time, start) * PIXELS_PER_MINUTE}px` }}
+              >
+                {format(time, 'HH:mm')}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Lanes */}
+        {lanes.map(lane => {
+          const palette = BLUE_STATION_PALETTE[lane.color] || BLUE_STATION_PALETTE.slate;
+          const tracks = toTracks(lane.windows);
+          const onNow = Array.from(new Set(lane.windows.filter(isNow).flatMap(w => w.employeeIds)));
+          const gaps = lane.windows.filter(w => w.employeeIds.length === 0).length;
+          const doubles = lane.windows.filter(w => w.employeeIds.length > 1).length;
+
+          return (
+            <div key={lane.station} className="flex border-b border-slate-100">
+              {/* Lane label: who is on the station right now */}
+              <div className="w-40 shrink-0 sticky left-0 z-20 bg-white border-r border-slate-200 p-3 flex flex-col justify-center gap-1">
+                <div className="flex items-center gap-2">
+                  <span className={`w-2.5 h-2.5 rounded-full shrink-0 ${palette.swatch}`}></span>
+                  <span className="font-bold text-sm text-slate-800 truncate">{lane.station}</span>
+                </div>
+                {currentTime && (
+                  <span className="text-[10px] font-medium text-slate-500 truncate">
+                    Now: {onNow.length > 0 ? onNow.map(getName).join(', ') : '—'}
+                  </span>
+                )}
+                <span className="text-[9px] font-bold uppercase tracking-wide">
+                  <span className={gaps > 0 ? 'text-red-600' : 'text-slate-400'}>{gaps} gaps</span>
+                  <span className="text-slate-300 mx-1">·</span>
+                  <span className={doubles > 0 ? 'text-amber-600' : 'text-slate-400'}>{doubles} double</span>
+                </span>
+              </div>
+
+              {/* Tracks */}
+              <div className="relative flex-1 py-1">
+                {nowMinutes >= 0 && nowMinutes <= totalMinutes && (
+                  <div className="absolute top-0 bottom-0 border-r-2 border-red-500 opacity-50 z-10 pointer-events-none" style={{ left: `${nowMinutes * PIXELS_PER_MINUTE}px` }} />
+                )}
+                {tracks.map((track, ti) => (
+                  <div key={ti} className="relative h-10">
+                    {track.map((w, wi) => {
+                      const isGap = w.employeeIds.length === 0;
+                      const isDouble = w.employeeIds.length > 1;
+                      const style = isGap
+                        ? 'bg-red-100 border border-red-400 text-red-700'
+                        : isDouble
+                          ? 'bg-amber-50 border-2 border-amber-400 text-amber-900'
+                          : palette.timeline;
+                      return (
+                        <div
+                          key={wi}
+                          className={`absolute top-1 bottom-1 rounded-md px-2 flex items-center overflow-hidden whitespace-nowrap text-[11px] font-bold shadow-sm ${style} ${isNow(w) ? 'ring-2 ring-blue-300' : ''}`}
+                          style={{
+                            left: `${differenceInMinutes(w.startTime, start) * PIXELS_PER_MINUTE}px`,
+                            width: `${differenceInMinutes(w.endTime, w.startTime) * PIXELS_PER_MINUTE}px`
+                          }}
+                          title={`${lane.station} ${format(w.startTime, 'HH:mm')}-${format(w.endTime, 'HH:mm')}: ${isGap ? 'uncovered' : w.employeeIds.map(getName).join(', ')}`}
+                        >
+                          {isGap ? 'Gap' : w.employeeIds.map(getName).join(' + ')}
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
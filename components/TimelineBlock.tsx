@@ -1,29 +1,22 @@
 
 import React from 'react';
-import { TimeBlock, StationType } from '../types';
-import { differenceInMinutes, isBefore } from 'date-fns';
+import { TimeBlock, CycleStep, StationType } from '../types';
+import { differenceInMinutes, isBefore, format } from 'date-fns';
+import { getBlueStationColors } from './stationColors';
+import { DEFAULT_CYCLE } from '../services/scheduler';
 
 interface Props {
   block: TimeBlock;
   dayStart: Date;
   pixelsPerMinute: number;
   currentTime?: Date;
+  cycle?: CycleStep[];
+  draggable?: boolean; // Can be dragged onto another employee's row; lunch never moves
 }
 
-const getStationStyle = (station: StationType) => {
-  switch (station) {
-    case StationType.SHOW: 
-      return 'bg-white border-l-[6px] border-l-blue-600 border-y border-r border-slate-300 text-slate-900';
-    case StationType.OCEAN: 
-      return 'bg-white border-l-[6px] border-l-teal-600 border-y border-r border-slate-300 text-slate-900';
-    case StationType.FLOOR_MINUS_1: 
-      return 'bg-white border-l-[6px] border-l-rose-600 border-y border-r border-slate-300 text-slate-900';
-    default: 
-      return 'bg-white border-l-[6px] border-l-gray-600 border-y border-r border-slate-300 text-slate-900';
-  }
-};
+const getStationStyle = (station: string, cycle: CycleStep[]) => getBlueStationColors(station, cycle).timeline;
 
-export const TimelineBlock: React.FC<Props> = ({ block, dayStart, pixelsPerMinute, currentTime }) => {
+export const TimelineBlock: React.FC<Props> = ({ block, dayStart, pixelsPerMinute, currentTime, cycle = DEFAULT_CYCLE, draggable = false }) => {
   const startMinutes = differenceInMinutes(block.startTime, dayStart);
   const duration = differenceInMinutes(block.endTime, block.startTime);
   
@@ -32,10 +25,17 @@ export const TimelineBlock: React.FC<Props> = ({ block, dayStart, pixelsPerMinut
   
   // Check if block is in the past
   const isPast = currentTime ? isBefore(block.endTime, currentTime) : false;
+  const isMovable = draggable && block.station !== StationType.LUNCH;
 
   return (
     <div 
-      className={`absolute top-2 bottom-2 rounded-md flex flex-col justify-center px-3 overflow-hidden whitespace-nowrap z-10 hover:z-20 shadow-sm hover:shadow-lg transition-all hover:scale-[1.02] ${getStationStyle(block.station)} ${isPast ? 'opacity-30 grayscale' : 'opacity-100'}`}
+      draggable={isMovable}
+      onDragStart={isMovable ? (e) => {
+        // Same payload as the employee cards, so either can be dropped on the other
+        e.dataTransfer.setData('application/json', JSON.stringify({ station: block.station, startTime: format(block.startTime, 'HH:mm') }));
+        e.dataTransfer.effectAllowed = 'move';
+      } : undefined}
+      className={`absolute top-2 bottom-2 rounded-md flex flex-col justify-center px-3 overflow-hidden whitespace-nowrap z-10 hover:z-20 shadow-sm hover:shadow-lg transition-all hover:scale-[1.02] ${getStationStyle(block.station, cycle)} ${isPast ? 'opacity-30 grayscale' : 'opacity-100'} ${isMovable ? 'pointer-events-auto cursor-grab active:cursor-grabbing' : ''} ${block.pinned ? 'ring-2 ring-slate-500' : ''}`}
       style={{ left: `${left}px`, width: `${width}px` }}
       title={`${block.employeeId} - ${block.station}`}
     >
@@ -0,0 +1,134 @@
+import React from 'react';
+import { DaySchedule, GreenStation, StationType } from '../types';
+import { GREEN_STATION_PALETTE } from './stationColors';
+import { toDateKey } from '../services/week';
+import { format } from 'date-fns';
+
+interface Props {
+  dates: Date[]; // Columns, one per calendar day
+  days: DaySchedule[]; // Generated days; dates without one are closed
+  employeeNames?: Record<string, string>;
+  selectedDate?: string | null;
+  onSelectDay: (date: string) => void;
+  currentTime?: Date;
+}
+
+// Everyone who is on the roster (or listed but away) on at least one day, in order of first appearance
+const collectRoster = (days: DaySchedule[], pick: (day: DaySchedule) => string[]): string[] =>
+  Array.from(new Set(days.flatMap(pick)));
+
+export const WeekGrid: React.FC<Props> = ({ dates, days, employeeNames = {}, selectedDate, onSelectDay, currentTime }) => {
+  const dayFor = (date: Date) => days.find(d => d.date === toDateKey(date));
+  const todayKey = currentTime ? toDateKey(currentTime) : null;
+  const getName = (id: string) => employeeNames[id] || id;
+
+  const blueIds = collectRoster(days, d => [...d.blueRoster, ...(d.blueOnLeave ?? [])]);
+  const greenIds = collectRoster(days, d => [...d.greenRoster, ...(d.greenOnLeave ?? [])]);
+
+  const columnClass = (date: Date) => {
+    const key = toDateKey(date);
+    if (key === selectedDate) return 'bg-blue-50/60';
+    if (key === todayKey) return 'bg-amber-50/40';
+    return '';
+  };
+
+  const renderBlueCell = (day: DaySchedule, empId: string) => {
+    // Pinned and replanned blocks are not stored in time order
+    const work = day.blue.blocks
+      .filter(b => b.employeeId === empId && b.station !== StationType.LUNCH)
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+    if (work.length === 0) return <span className="text-slate-300">—</span>;
+    const lunch = day.blue.blocks.find(b => b.employeeId === empId && b.station === StationType.LUNCH);
+    return (
+      <div className="flex flex-col leading-tight">
+        <span className="font-bold text-slate-700">{format(work[0].startTime, 'HH:mm')}–{format(work[work.length - 1].endTime, 'HH:mm')}</span>
+        <span className="text-[10px] text-slate-400">
+          {work.length} blocks{lunch ? ` · lunch ${format(lunch.startTime, 'HH:mm')}` : ''}
+        </span>
+      </div>
+    );
+  };
+
+  const renderGreenCell = (day: DaySchedule, empId: string) => (
+    <div className="flex flex-wrap gap-0.5">
+      {day.green.rotations.map(rotation => {
+        const station = Object.keys(rotation.assignments).find(id => rotation.assignments[id].includes(empId));
+        const def = day.stations.find(st => st.id === station);
+        const style = def ? (GREEN_STATION_PALETTE[def.color] || GREEN_STATION_PALETTE.slate).label : 'bg-white text-slate-300 border border-slate-200';
+        const short = station === GreenStation.OFF_SHIFT ? 'Off'
+          : station === GreenStation.SIDE_TASK ? 'Side'
+          : (def?.name || station || '—').slice(0, 4);
+        return (
+          <span key={rotation.id} className={`px-1 py-0.5 rounded text-[9px] font-bold ${style}`} title={`Rotation ${rotation.id} (${rotation.timeRange}): ${def?.name || station || 'unassigned'}`}>
+            {short}
+          </span>
+        );
+      })}
+    </div>
+  );
+
+  const renderSection = (title: string, ids: string[], onRoster: (day: DaySchedule, id: string) => boolean, onLeave: (day: DaySchedule, id: string) => boolean, renderCell: (day: DaySchedule, id: string) => React.ReactNode, accent: string) => (
+    <>
+      <tr>
+        <td colSpan={dates.length + 1} className={`px-3 pt-4 pb-1 text-[10px] font-bold uppercase tracking-widest ${accent}`}>{title}</td>
+      </tr>
+      {ids.map(empId => (
+        <tr key={empId} className="border-t border-slate-100">
+          <td className="sticky left-0 z-10 bg-white px-3 py-2 font-bold text-slate-700 whitespace-nowrap">{getName(empId)}</td>
+          {dates.map(date => {
+            const day = dayFor(date);
+            return (
+              <td key={date.toISOString()} className={`px-2 py-2 align-top ${columnClass(date)}`}>
+                {day && onRoster(day, empId) ? renderCell(day, empId)
+                  : day && onLeave(day, empId) ? <span className="px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 text-[9px] font-bold">Away</span>
+                  : <span className="text-slate-300">—</span>}
+              </td>
+            );
+          })}
+        </tr>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="overflow-x-auto custom-scrollbar border border-slate-200 rounded-xl bg-white">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="bg-slate-50 border-b border-slate-200">
+            <th className="sticky left-0 z-10 bg-slate-50 px-3 py-2 text-left font-bold text-slate-500 w-32">Person</th>
+            {dates.map(date => {
+              const day = dayFor(date);
+              const criticals = day ? day.green.notifications.filter(n => n.type === 'critical').length : 0;
+              return (
+                <th key={date.toISOString()} className={`px-2 py-2 text-left align-top min-w-[120px] ${columnClass(date)}`}>
+                  <button onClick={() => day && onSelectDay(day.date)} disabled={!day} className="text-left w-full disabled:cursor-default">
+                    <span className="block font-bold text-slate-800">{format(date, 'EEE d MMM')}</span>
+                    {day ? (
+                      <>
+                        <span className="block text-[10px] font-medium text-slate-400 truncate">{day.label}</span>
+                        <span className="flex gap-1 mt-1">
+                          <span className={`px-1.5 py-0.5 rounded text-[9px] font-bold ${day.blue.issues.length > 0 ? 'bg-rose-100 text-rose-700' : 'bg-blue-50 text-blue-600'}`}>
+                            Blue {day.blue.issues.length}
+                          </span>
+                          <span className={`px-1.5 py-0.5 rounded text-[9px] font-bold ${criticals > 0 ? 'bg-rose-100 text-rose-700' : 'bg-emerald-50 text-emerald-600'}`}>
+                            Green {criticals}
+                          </span>
+                        </span>
+                      </>
+                    ) : (
+                      <span className="block text-[10px] font-medium text-slate-400">Closed</span>
+                    )}
+                  </button>
+                </th>
+              );
+            })}
+          </tr>
+        </thead>
+        <tbody>
+          {blueIds.length > 0 && renderSection('Blue Team', blueIds, (day, id) => day.blueRoster.includes(id), (day, id) => !!day.blueOnLeave?.includes(id), renderBlueCell, 'text-blue-600')}
+          {greenIds.length > 0 && renderSection('Green Team', greenIds, (day, id) => day.greenRoster.includes(id), (day, id) => !!day.greenOnLeave?.includes(id), renderGreenCell, 'text-emerald-600')}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import { CycleStep, StationType } from '../types';
+import { DEFAULT_CYCLE } from '../services/scheduler';
+
+interface StationColors {
+  card: string; // EmployeeCard row
+  timeline: string; // TimelineBlock bar
+  swatch: string; // Small colour dot in editors
+}
+
+// Colour palette for Blue cycle steps, keyed by CycleStep.color
+export const BLUE_STATION_PALETTE: Record<string, StationColors> = {
+  blue: {
+    card: 'bg-blue-50 text-blue-900 border-l-[4px] border-blue-600',
+    timeline: 'bg-white border-l-[6px] border-l-blue-600 border-y border-r border-slate-300 text-slate-900',
+    swatch: 'bg-blue-600'
+  },
+  teal: {
+    card: 'bg-teal-50 text-teal-900 border-l-[4px] border-teal-600',
+    timeline: 'bg-white border-l-[6px] border-l-teal-600 border-y border-r border-slate-300 text-slate-900',
+    swatch: 'bg-teal-600'
+  },
+  rose: {
+    card: 'bg-rose-50 text-rose-900 border-l-[4px] border-rose-600',
+    timeline: 'bg-white border-l-[6px] border-l-rose-600 border-y border-r border-slate-300 text-slate-900',
+    swatch: 'bg-rose-600'
+  },
+  violet: {
+    card: 'bg-violet-50 text-violet-900 border-l-[4px] border-violet-600',
+    timeline: 'bg-white border-l-[6px] border-l-violet-600 border-y border-r border-slate-300 text-slate-900',
+    swatch: 'bg-violet-600'
+  },
+  sky: {
+    card: 'bg-sky-50 text-sky-900 border-l-[4px] border-sky-600',
+    timeline: 'bg-white border-l-[6px] border-l-sky-600 border-y border-r border-slate-300 text-slate-900',
+    swatch: 'bg-sky-600'
+  },
+  emerald: {
+    card: 'bg-emerald-50 text-emerald-900 border-l-[4px] border-emerald-600',
+    timeline: 'bg-white border-l-[6px] border-l-emerald-600 border-y border-r border-slate-300 text-slate-900',
+    swatch: 'bg-emerald-600'
+  },
+  orange: {
+    card: 'bg-orange-50 text-orange-900 border-l-[4px] border-orange-600',
+    timeline: 'bg-white border-l-[6px] border-l-orange-600 border-y border-r border-slate-300 text-slate-900',
+    swatch: 'bg-orange-600'
+  },
+  slate: {
+    card: 'bg-slate-50 text-slate-900 border-l-[4px] border-slate-500',
+    timeline: 'bg-white border-l-[6px] border-l-gray-600 border-y border-r border-slate-300 text-slate-900',
+    swatch: 'bg-slate-500'
+  }
+};
+
+const LUNCH_COLORS: StationColors = {
+  card: 'bg-amber-50 text-amber-900 border-l-[4px] border-amber-500 border-dashed',
+  timeline: 'bg-amber-50 border-l-[6px] border-l-amber-500 border-y border-r border-dashed border-amber-300 text-amber-900',
+  swatch: 'bg-amber-500'
+};
+
+// Looks a station up in the cycle definition; unknown stations fall back to slate
+export const getBlueStationColors = (station: string, cycle: CycleStep[] = DEFAULT_CYCLE): StationColors => {
+  if (station === StationType.LUNCH) return LUNCH_COLORS;
+  const step = cycle.find(s => s.station === station);
+  return (step && BLUE_STATION_PALETTE[step.color]) || BLUE_STATION_PALETTE.slate;
+};
+
+// Colour palette for Green catalogue stations, keyed by GreenStationDef.color
+// (zone = employee chip, label = station header)
+export const GREEN_STATION_PALETTE: Record<string, { zone: string; label: string }> = {
+  amber: { zone: 'bg-amber-50 text-amber-900 border-amber-200', label: 'bg-amber-100 text-amber-800' },
+  orange: { zone: 'bg-orange-50 text-orange-900 border-orange-200', label: 'bg-orange-100 text-orange-800' },
+  emerald: { zone: 'bg-emerald-50 text-emerald-900 border-emerald-200', label: 'bg-emerald-100 text-emerald-800' },
+  indigo: { zone: 'bg-indigo-50 text-indigo-900 border-indigo-200', label: 'bg-indigo-100 text-indigo-800' },
+  sky: { zone: 'bg-sky-50 text-sky-900 border-sky-200', label: 'bg-sky-100 text-sky-800' },
+  rose: { zone: 'bg-rose-50 text-rose-900 border-rose-200', label: 'bg-rose-100 text-rose-800' },
+  violet: { zone: 'bg-violet-50 text-violet-900 border-violet-200', label: 'bg-violet-100 text-violet-800' },
+  slate: { zone: 'bg-slate-50 text-slate-700 border-slate-200', label: 'bg-slate-100 text-slate-600' }
+};
@@ -0,0 +1,62 @@
+import { ArchivedDay, ArchiveEntry } from '../types';
+
+// --- Schedule Archive ---
+// Published days live in IndexedDB rather than localStorage: a week of blocks outgrows
+// the localStorage quota quickly, and structured cloning keeps the Date fields intact.
+// Each record is a full snapshot, so later config or directory edits never touch it.
+
+const DB_NAME = 'museum_archive';
+const DB_VERSION = 1;
+const STORE = 'days'; // keyPath: ArchivedDay.date
+
+const openArchive = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'date' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs one request in its own transaction; settles once the transaction commits or fails
+const withStore = <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  openArchive().then(db => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error);
+    };
+    // Aborts (e.g. over quota) do not always raise an error event first
+    tx.onabort = () => {
+      db.close();
+      reject(tx.error);
+    };
+  }));
+
+/** Stores a day, replacing anything already published for that date. */
+export const publishDay = (day: ArchivedDay): Promise<void> =>
+  withStore('readwrite', store => store.put(day)).then(() => undefined);
+
+export const loadArchivedDay = (date: string): Promise<ArchivedDay | null> =>
+  withStore<ArchivedDay | undefined>('readonly', store => store.get(date)).then(day => day ?? null);
+
+/** Every published day, newest date first. */
+export const listArchive = (): Promise<ArchiveEntry[]> =>
+  withStore<ArchivedDay[]>('readonly', store => store.getAll()).then(days =>
+    days
+      .map(({ date, label, publishedAt }) => ({ date, label, publishedAt }))
+      .sort((a, b) => b.date.localeCompare(a.date))
+  );
+
+/** Published days from `from` to `to` inclusive (yyyy-MM-dd), oldest first. */
+export const loadArchiveRange = (from: string, to: string): Promise<ArchivedDay[]> =>
+  withStore<ArchivedDay[]>('readonly', store => store.getAll(IDBKeyRange.bound(from, to)));
+
+export const deleteArchivedDay = (date: string): Promise<void> =>
+  withStore('readwrite', store => store.delete(date)).then(() => undefined);
@@ -0,0 +1,53 @@
+import { Absence, AbsenceReason } from '../types';
+
+// --- Time Off ---
+// Dates are yyyy-MM-dd keys, which compare correctly as plain strings.
+
+export const ABSENCE_REASON_LABELS: Record<AbsenceReason, string> = {
+  vacation: 'Vacation',
+  sick: 'Sick',
+  training: 'Training',
+  other: 'Other'
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isComplete = (a: Absence) => DATE_PATTERN.test(a.from) && DATE_PATTERN.test(a.to);
+
+// The absence keeping someone away on a date, if any; entries still being filled in never match
+export const getAbsence = (absences: Absence[], empId: string, dateKey: string): Absence | undefined =>
+  absences.find(a => a.employeeId === empId && isComplete(a) && a.from <= dateKey && dateKey <= a.to);
+
+// The roster as it stands on a date: everyone listed who is not away, in roster order
+export const filterAvailable = (roster: string[], absences: Absence[], dateKey: string): string[] =>
+  roster.filter(empId => !getAbsence(absences, empId, dateKey));
+
+// One line per listed person who is away on the date
+export const getLeaveWarnings = (
+  roster: string[],
+  absences: Absence[],
+  dateKey: string,
+  team: string,
+  getName: (id: string) => string = id => id
+): string[] =>
+  roster.flatMap(empId => {
+    const absence = getAbsence(absences, empId, dateKey);
+    if (!absence) return [];
+    return [`${getName(empId)} is listed on the ${team} roster but is away on ${dateKey} (${ABSENCE_REASON_LABELS[absence.reason]}). Left out of the schedule.`];
+  });
+
+/**
+ * Checks time off entries. Returns a list of human readable problems (empty = valid).
+ * Entries with a problem keep nobody away until they are fixed.
+ */
+export const validateAbsences = (absences: Absence[], getName: (id: string) => string = id => id): string[] => {
+  const errors: string[] = [];
+  absences.forEach(a => {
+    if (!isComplete(a)) {
+      errors.push(`${getName(a.employeeId)}'s time off needs a first and last day.`);
+    } else if (a.to < a.from) {
+      errors.push(`${getName(a.employeeId)}'s time off ${a.from} to ${a.to} ends before it starts.`);
+    }
+  });
+  return errors;
+};
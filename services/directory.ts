@@ -0,0 +1,116 @@
+import { Person, TeamType, PresetData } from '../types';
+import { mergeLegacyShifts } from './shifts';
+
+// --- Employee Directory ---
+
+// Team sizes of the slot-based app: fresh installs start with the same rosters
+export const DEFAULT_TEAM_SIZES = { blue: 4, green: 6 };
+
+// The first names go on Blue, the next on Green, the rest wait in the directory
+export const seedDirectory = (names: string[], blueCount: number = DEFAULT_TEAM_SIZES.blue, greenCount: number = DEFAULT_TEAM_SIZES.green): Person[] =>
+  names.map((name, i) => ({
+    id: `P${i + 1}`,
+    name,
+    team: i < blueCount ? TeamType.BLUE : i < blueCount + greenCount ? TeamType.GREEN : null,
+    note: ''
+  }));
+
+export const nextPersonId = (people: Person[]): string => {
+  const highest = people.reduce((acc, p) => Math.max(acc, parseInt(p.id.slice(1)) || 0), 0);
+  return `P${highest + 1}`;
+};
+
+// Roster order is directory order
+export const getRoster = (people: Person[], team: TeamType): string[] =>
+  people.filter(p => p.team === team).map(p => p.id);
+
+export const getTeams = (people: Person[]): Record<string, TeamType> => {
+  const teams: Record<string, TeamType> = {};
+  people.forEach(p => {
+    if (p.team) teams[p.id] = p.team;
+  });
+  return teams;
+};
+
+// --- Slot Migration ---
+// Before the directory, both teams used positional slots (A1..An for Blue, B1..Bn for Green)
+// with a name attached to each. Everything keyed by slot is re-keyed by the person in it.
+
+// Every slot of a team: the first `count` plus any other slot that carries a name, in slot order
+const listSlots = (prefix: string, names: Record<string, string>, count: number): string[] => {
+  const slots = new Set([...Array.from({ length: count }, (_, i) => `${prefix}${i + 1}`), ...Object.keys(names)]);
+  return Array.from(slots).sort((a, b) => (parseInt(a.slice(1)) || 0) - (parseInt(b.slice(1)) || 0));
+};
+
+/**
+ * Finds (or adds) the person named in each slot and puts them on that slot's team.
+ * Slots without a name were shown by their slot ID, so they become a person of that name.
+ */
+export const migrateSlots = (
+  people: Person[],
+  blueNames: Record<string, string> = {},
+  greenNames: Record<string, string> = {},
+  blueCount: number = 0, // Slots the team had, named or not
+  greenCount: number = 0
+): { people: Person[]; slotToPerson: Record<string, string> } => {
+  const updated = people.map(p => ({ ...p }));
+  const slotToPerson: Record<string, string> = {};
+
+  const claim = (slot: string, name: string, team: TeamType) => {
+    let person = updated.find(p => p.name === name);
+    if (!person) {
+      person = { id: nextPersonId(updated), name, team: null, note: '' };
+      updated.push(person);
+    }
+    person.team = team;
+    slotToPerson[slot] = person.id;
+  };
+
+  listSlots('A', blueNames, blueCount).forEach(slot => claim(slot, blueNames[slot] || slot, TeamType.BLUE));
+  listSlots('B', greenNames, greenCount).forEach(slot => claim(slot, greenNames[slot] || slot, TeamType.GREEN));
+
+  return { people: updated, slotToPerson };
+};
+
+export const remapKeys = <T>(record: Record<string, T> = {}, slotToPerson: Record<string, string>): Record<string, T> => {
+  const result: Record<string, T> = {};
+  Object.entries(record).forEach(([slot, value]) => {
+    if (slotToPerson[slot]) result[slotToPerson[slot]] = value;
+  });
+  return result;
+};
+
+export const remapEmployeeIds = <T extends { employeeId: string }>(items: T[] = [], slotToPerson: Record<string, string>): T[] =>
+  items
+    .filter(item => slotToPerson[item.employeeId])
+    .map(item => ({ ...item, employeeId: slotToPerson[item.employeeId] }));
+
+/**
+ * Brings a preset saved before the directory existed up to date. Returns the directory
+ * (possibly with people added for names it did not know) and the re-keyed preset.
+ */
+export const migrateLegacyPreset = (data: PresetData, people: Person[]): { people: Person[]; data: PresetData } => {
+  if (data.teams) return { people, data };
+
+  const blueCount = (data.config as { numEmployees?: number } | undefined)?.numEmployees ?? 0;
+  const migrated = migrateSlots(people, data.employeeNames, data.greenEmployeeNames, blueCount, data.numGreenEmployees ?? 0);
+  const map = migrated.slotToPerson;
+  const { employeeNames, greenEmployeeNames, numGreenEmployees, employeeShifts, ...rest } = data;
+
+  return {
+    people: migrated.people,
+    data: {
+      ...rest,
+      teams: getTeams(migrated.people.filter(p => Object.values(map).includes(p.id))),
+      sideTasks: remapEmployeeIds(data.sideTasks, map),
+      shiftExceptions: mergeLegacyShifts(remapEmployeeIds(data.shiftExceptions, map), remapKeys(employeeShifts, map)),
+      forcedAssignments: remapEmployeeIds(data.forcedAssignments, map),
+      teamLocks: {
+        blue: remapKeys(data.teamLocks?.blue, map),
+        green: remapKeys(data.teamLocks?.green, map)
+      },
+      employeeOffsets: remapKeys(data.employeeOffsets, map),
+      pinnedBlocks: remapEmployeeIds(data.pinnedBlocks, map)
+    }
+  };
+};
@@ -0,0 +1,30 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { DaySchedule, StationTally } from '../types';
+import { tallyGreenStations } from './greenScheduler';
+
+// --- Fairness Ledger ---
+// Green station exposure per person across days, built from earlier schedules.
+// Recent days weigh more: yesterday counts fully, a week ago about a quarter.
+
+export const LEDGER_LOOKBACK_DAYS = 28;
+const LEDGER_DECAY = 0.8; // Share of the weight kept for each day further back
+
+/**
+ * Decayed station counts from the days strictly before `date`, as fed to the Green scorer.
+ */
+export const buildLedger = (days: DaySchedule[], date: string, lookbackDays = LEDGER_LOOKBACK_DAYS): StationTally => {
+  const target = parseISO(date);
+  return days.reduce<StationTally>((tally, day) => {
+    const daysAgo = differenceInCalendarDays(target, parseISO(day.date));
+    if (daysAgo < 1 || daysAgo > lookbackDays) return tally;
+    return tallyGreenStations(day.green, tally, Math.pow(LEDGER_DECAY, daysAgo - 1));
+  }, {});
+};
+
+/**
+ * Plain station counts over an inclusive date range, for reporting.
+ */
+export const tallyRange = (days: DaySchedule[], from: string, to: string): StationTally =>
+  days
+    .filter(day => day.date >= from && day.date <= to)
+    .reduce<StationTally>((tally, day) => tallyGreenStations(day.green, tally), {});
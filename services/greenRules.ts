@@ -0,0 +1,101 @@
+import { GreenRuleId, GreenRules, GreenStation, GreenStationDef, ScoreTerm } from '../types';
+
+// --- Green Rule Engine ---
+// The policy the Green scorers follow. The defaults reproduce the original hardcoded
+// penalties; presets can switch rules off, make them soft and re-weight them.
+
+export const DEFAULT_GREEN_RULES: GreenRules = {
+  noConsecutiveRepeat: { enabled: true, hard: true, weight: 5000000 },
+  minimumGap: { enabled: true, hard: false, weight: 200000, within: 2 },
+  maxPerStation: { enabled: true, hard: true, weight: 10000000, limit: 2 },
+  onceOnly: { enabled: true, hard: true, weight: 10000000, stations: [GreenStation.PLANETARIUM] },
+  escapeMuseum: { enabled: true, hard: false, weight: 1000000 }
+};
+
+export const GREEN_RULE_IDS: GreenRuleId[] = ['noConsecutiveRepeat', 'minimumGap', 'maxPerStation', 'onceOnly', 'escapeMuseum'];
+
+// Rules that limit who may take a seat; the escape-Museum bonus only steers the choice
+export const CONSTRAINT_RULE_IDS: GreenRuleId[] = ['noConsecutiveRepeat', 'minimumGap', 'maxPerStation', 'onceOnly'];
+
+export const GREEN_RULE_LABELS: Record<GreenRuleId, string> = {
+  noConsecutiveRepeat: 'No consecutive repeat',
+  minimumGap: 'Minimum gap',
+  maxPerStation: 'Max times per station',
+  onceOnly: 'Once-only stations',
+  escapeMuseum: 'Escape-Museum bonus'
+};
+
+// One line per rule with its current parameter, for notices and solver explanations
+export const describeGreenRule = (id: GreenRuleId, rules: GreenRules, stations: GreenStationDef[] = []): string => {
+  const stationName = (stationId: string) => stations.find(st => st.id === stationId)?.name || stationId;
+  switch (id) {
+    case 'noConsecutiveRepeat': return 'no station twice in a row';
+    case 'minimumGap': return `no return to a station within ${rules.minimumGap.within} rotations`;
+    case 'maxPerStation': return `at most ${rules.maxPerStation.limit} rotation${rules.maxPerStation.limit === 1 ? '' : 's'} per station`;
+    case 'onceOnly': return `${rules.onceOnly.stations.map(stationName).join(', ') || 'no station'} at most once a day`;
+    case 'escapeMuseum': return 'people leaving Museum go to active stations first';
+  }
+};
+
+// Hard constraint rules that are switched on
+export const getHardRuleIds = (rules: GreenRules): GreenRuleId[] =>
+  CONSTRAINT_RULE_IDS.filter(id => rules[id].enabled && rules[id].hard);
+
+// Most the soft rules can add to (or take off) one placement's score together
+export const getSoftRuleTotal = (rules: GreenRules): number =>
+  GREEN_RULE_IDS.filter(id => rules[id].enabled && !rules[id].hard).reduce((acc, id) => acc + rules[id].weight, 0);
+
+// Fills in rules missing from older presets or storage
+export const completeGreenRules = (saved?: Partial<GreenRules>): GreenRules => {
+  if (!saved) return DEFAULT_GREEN_RULES;
+  return {
+    noConsecutiveRepeat: { ...DEFAULT_GREEN_RULES.noConsecutiveRepeat, ...saved.noConsecutiveRepeat },
+    minimumGap: { ...DEFAULT_GREEN_RULES.minimumGap, ...saved.minimumGap },
+    maxPerStation: { ...DEFAULT_GREEN_RULES.maxPerStation, ...saved.maxPerStation },
+    onceOnly: { ...DEFAULT_GREEN_RULES.onceOnly, ...saved.onceOnly },
+    escapeMuseum: { ...DEFAULT_GREEN_RULES.escapeMuseum, ...saved.escapeMuseum }
+  };
+};
+
+export interface RuleCheck {
+  broken: GreenRuleId[]; // Hard rules the placement would break
+  penalty: number; // Weights of every breached rule, less any bonus
+  terms: ScoreTerm[]; // The same, rule by rule
+}
+
+/**
+ * Scores putting someone whose day so far is `past` on `station`.
+ * Repeat rules only look at rotating stations; once-only stations are checked regardless.
+ */
+export const evaluateGreenRules = (
+  rules: GreenRules,
+  station: GreenStationDef,
+  past: string[],
+  stations: GreenStationDef[]
+): RuleCheck => {
+  const { noConsecutiveRepeat, minimumGap, maxPerStation, onceOnly, escapeMuseum } = rules;
+  const broken: GreenRuleId[] = [];
+  const terms: ScoreTerm[] = [];
+  const breach = (id: GreenRuleId) => {
+    if (rules[id].hard) broken.push(id);
+    terms.push({ label: GREEN_RULE_LABELS[id], points: rules[id].weight });
+  };
+
+  const lastStation = past.length > 0 ? past[past.length - 1] : null;
+
+  if (station.countsForRepeat) {
+    if (noConsecutiveRepeat.enabled && lastStation === station.id) breach('noConsecutiveRepeat');
+    // The rotation right before is the consecutive rule's business
+    if (minimumGap.enabled && minimumGap.within > 1 && past.slice(-minimumGap.within, -1).includes(station.id)) breach('minimumGap');
+    if (maxPerStation.enabled && past.filter(s => s === station.id).length >= maxPerStation.limit) breach('maxPerStation');
+
+    const lastDef = stations.find(st => st.id === lastStation);
+    if (escapeMuseum.enabled && lastDef && !lastDef.countsForRepeat) {
+      terms.push({ label: GREEN_RULE_LABELS.escapeMuseum, points: -escapeMuseum.weight });
+    }
+  }
+
+  if (onceOnly.enabled && onceOnly.stations.includes(station.id) && past.includes(station.id)) breach('onceOnly');
+
+  return { broken, penalty: terms.reduce((acc, t) => acc + t.points, 0), terms };
+};
@@ -1,7 +1,10 @@
 
-import { GreenRotation, GreenStation, SideTaskRule, ShiftException, GeneratedGreenSchedule, GreenNotification, ForcedAssignment } from '../types';
+import { GreenRotation, GreenStation, SideTaskRule, ShiftException, GeneratedGreenSchedule, GreenNotification, ForcedAssignment, LunchConfig, GreenLunchBreak, RotationMeta, GreenStationDef, GreenScheduleOptions, StationTally, GreenScheduleScore, GreenCandidate, PlacementExplanation, PlacementReason, ScoreTerm, PresenceThreshold, FrozenRotations } from '../types';
+import { DEFAULT_GREEN_RULES, evaluateGreenRules, GREEN_RULE_LABELS, describeGreenRule, getSoftRuleTotal } from './greenRules';
+import { getMinutes, toTimeString, TIME_PATTERN, getMissedRanges, formatMissed } from './shifts';
 
-export const ROTATIONS_META = [
+// Standard weekday timetable, used until a preset provides its own
+export const DEFAULT_ROTATIONS_META: RotationMeta[] = [
   { id: 1, start: "09:00", end: "10:30" },
   { id: 2, start: "10:30", end: "12:00" },
   { id: 3, start: "12:00", end: "14:00" },
@@ -9,96 +12,221 @@ export const ROTATIONS_META = [
   { id: 5, start: "15:30", end: "17:00" }
 ];
 
-// Helper to convert HH:mm to minutes from midnight
-const getMinutes = (time: string): number => {
-  const [h, m] = time.split(':').map(Number);
-  return h * 60 + m;
+// Standard station catalogue: Ticket 1, Greeter 1, Planetarium 1, Ticket 2, then Museum absorbs everyone else
+export const DEFAULT_GREEN_STATIONS: GreenStationDef[] = [
+  { id: GreenStation.TICKET, name: 'Ticket', minStaff: 2, maxStaff: 2, priority: 1, countsForRepeat: true, color: 'amber' },
+  { id: GreenStation.GREETER, name: 'Greeter', minStaff: 1, maxStaff: 1, priority: 2, countsForRepeat: true, color: 'orange' },
+  { id: GreenStation.PLANETARIUM, name: 'Planetarium', minStaff: 1, maxStaff: 1, priority: 3, countsForRepeat: true, color: 'emerald' },
+  { id: GreenStation.MUSEUM, name: 'Museum', minStaff: 0, maxStaff: null, priority: 4, countsForRepeat: false, color: 'indigo' }
+];
+
+// Half a rotation on shift counts as being there for it
+export const DEFAULT_PRESENCE_THRESHOLD: PresenceThreshold = { unit: 'percent', value: 50 };
+
+// Keeping a frozen day's plan outweighs the soft rules by this much (see HEURISTIC 5)
+const KEEP_PLAN_MARGIN = 1000000;
+
+// Whether people only partly present for a rotation may work the station
+export const acceptsLateArrivals = (st: GreenStationDef): boolean => st.lateArrivalOk ?? st.maxStaff === null;
+
+// The rotation as it stood when the day was frozen, if it had already started by then
+export const getFrozenRotation = (frozen: FrozenRotations | undefined, rotMeta: RotationMeta): GreenRotation | undefined =>
+  frozen && getMinutes(rotMeta.start) < getMinutes(frozen.before)
+    ? frozen.rotations.find(r => r.id === rotMeta.id)
+    : undefined;
+
+// Catalogue stations in fill order
+export const sortStations = (stations: GreenStationDef[]): GreenStationDef[] =>
+  [...stations].sort((a, b) => a.priority - b.priority);
+
+// Empty assignment map for a catalogue, including the Side Task / Off Shift pseudo-stations
+export const createEmptyAssignments = (stations: GreenStationDef[]): Record<string, string[]> => {
+  const assignments: Record<string, string[]> = {};
+  stations.forEach(st => { assignments[st.id] = []; });
+  assignments[GreenStation.SIDE_TASK] = [];
+  assignments[GreenStation.OFF_SHIFT] = [];
+  return assignments;
+};
+
+/**
+ * Checks a rotation timetable. Returns a list of human readable problems (empty = valid).
+ * Rotations must be well-formed, in chronological order and must not overlap.
+ */
+export const validateRotations = (rotationsMeta: RotationMeta[]): string[] => {
+  const errors: string[] = [];
+
+  if (rotationsMeta.length === 0) {
+    errors.push('At least one rotation is required.');
+  }
+
+  rotationsMeta.forEach((rot, i) => {
+    if (!TIME_PATTERN.test(rot.start) || !TIME_PATTERN.test(rot.end)) {
+      errors.push(`Rotation ${rot.id} needs times in HH:mm format.`);
+      return;
+    }
+    if (getMinutes(rot.end) <= getMinutes(rot.start)) {
+      errors.push(`Rotation ${rot.id} must end after it starts.`);
+    }
+
+    const prev = rotationsMeta[i - 1];
+    if (prev && TIME_PATTERN.test(prev.end) && getMinutes(rot.start) < getMinutes(prev.end)) {
+      errors.push(`Rotation ${rot.id} starts before Rotation ${prev.id} ends (${prev.end}).`);
+    }
+  });
+
+  return errors;
+};
+
+// --- Presence ---
+
+/**
+ * On shift for the whole period (full), long enough to meet the threshold (partial), or not (absent).
+ * A threshold longer than the period itself asks for the whole period.
+ */
+export const getPresence = (
+  shiftExceptions: ShiftException[],
+  empId: string,
+  start: number,
+  end: number,
+  threshold: PresenceThreshold = DEFAULT_PRESENCE_THRESHOLD
+): 'full' | 'partial' | 'absent' => {
+  const length = end - start;
+  const present = length - getMissedRanges(shiftExceptions, empId, start, end).reduce((acc, r) => acc + r.end - r.start, 0);
+  if (present >= length) return 'full';
+  const required = threshold.unit === 'percent' ? length * threshold.value / 100 : Math.min(threshold.value, length);
+  return present > 0 && present >= required ? 'partial' : 'absent';
 };
 
+// Seeded PRNG (mulberry32): the same seed always produces the same sequence in [0, 1)
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = (): number => Math.floor(Math.random() * 1000000);
+
 // Shuffle array helper
-const shuffle = <T>(array: T[]): T[] => {
+const shuffle = <T>(array: T[], random: () => number): T[] => {
   const newArr = [...array];
   for (let i = newArr.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [newArr[i], newArr[j]] = [newArr[j], newArr[i]];
   }
   return newArr;
 };
 
 export const generateGreenSchedule = (
-  numEmployees: number,
+  employees: string[], // Person IDs on the Green roster
   sideTasks: SideTaskRule[],
-  shiftExceptions: ShiftException[],
+  shiftExceptions: ShiftException[], // Everyone's shift windows; only the roster's are read
   forcedAssignments: ForcedAssignment[] = [],
-  greenEmployeeNames: Record<string, string> = {}
+  greenEmployeeNames: Record<string, string> = {},
+  options: GreenScheduleOptions = {}
 ): GeneratedGreenSchedule => {
-  const employees = Array.from({ length: numEmployees }, (_, i) => `B${i + 1}`);
+  const { rotations: rotationsMeta = DEFAULT_ROTATIONS_META, stations = DEFAULT_GREEN_STATIONS, lunchConfig, certifications = {}, priorCounts = {}, seed = randomSeed(), rules = DEFAULT_GREEN_RULES, presence = DEFAULT_PRESENCE_THRESHOLD, frozen } = options;
   const notifications: GreenNotification[] = [];
+  const random = createRandom(seed);
 
   const getName = (id: string) => greenEmployeeNames[id] || id;
+
+  const stationsByPriority = sortStations(stations);
+  const stationById = (id: string) => stations.find(st => st.id === id);
+  // Once-only stations in this catalogue; people who have not had theirs yet are kept for them
+  // Room above the soft rules for the fairness and variety heuristics
+  const keepPlanWeight = getSoftRuleTotal(rules) + KEEP_PLAN_MARGIN;
+  const onceOnlyStations = rules.onceOnly.enabled ? rules.onceOnly.stations.filter(id => !!stationById(id)) : [];
+  const isCertified = (empId: string, st: GreenStationDef) =>
+    !st.requiresCertification || (certifications[empId] || []).includes(st.id);
   
-  // Track history: Name -> List of stations they have done
-  const history: Record<string, GreenStation[]> = {};
+  // Track history: Person -> List of stations they have done
+  const history: Record<string, string[]> = {};
   employees.forEach(id => {
-    const name = getName(id);
-    if (!history[name]) {
-        history[name] = [];
-    }
+    history[id] = [];
   });
 
   const rotations: GreenRotation[] = [];
-
-  // Pre-process Info notifications for global context
-  shiftExceptions.forEach(ex => {
+  const explanations: Record<string, PlacementExplanation> = {};
+  // Placements that were not scored: nobody else was considered
+  const explainFixed = (rotationId: number, employeeId: string, station: string, reason: PlacementReason) => {
+    explanations[`${rotationId}:${employeeId}`] = { rotationId, employeeId, station, reason, candidates: [] };
+  };
+
+  // Pre-process Info notifications for global context, one per person on this roster
+  Array.from(new Set(shiftExceptions.map(ex => ex.employeeId))).filter(empId => employees.includes(empId)).forEach(empId => {
+    const windows = shiftExceptions
+      .filter(ex => ex.employeeId === empId)
+      .sort((a, b) => getMinutes(a.startTime) - getMinutes(b.startTime));
     notifications.push({
-      id: `shift-${ex.id}`,
+      id: `shift-${windows[0].id}`,
       type: 'info',
-      message: `${getName(ex.employeeId)} (${ex.employeeId}) has a custom shift (${ex.startTime}-${ex.endTime}).`
+      message: `${getName(empId)} (${empId}) has a ${windows.length > 1 ? 'split' : 'custom'} shift (${windows.map(ex => `${ex.startTime}-${ex.endTime}`).join(', ')}).`
     });
   });
 
-  ROTATIONS_META.forEach(rotMeta => {
+  rotationsMeta.forEach(rotMeta => {
     const rotStartMins = getMinutes(rotMeta.start);
     const rotEndMins = getMinutes(rotMeta.end);
 
-    const assignments: Record<GreenStation, string[]> = {
-      [GreenStation.TICKET]: [],
-      [GreenStation.GREETER]: [],
-      [GreenStation.PLANETARIUM]: [],
-      [GreenStation.MUSEUM]: [],
-      [GreenStation.SIDE_TASK]: [],
-      [GreenStation.OFF_SHIFT]: []
-    };
+    const assignments = createEmptyAssignments(stations);
+
+    // 0. Rotations under way when the day was frozen stay exactly as they were
+    const frozenRotation = getFrozenRotation(frozen, rotMeta);
+    if (frozenRotation) {
+      Object.entries(frozenRotation.assignments).forEach(([station, ids]) => {
+        assignments[station] = ids.filter(empId => history[empId]);
+      });
+      employees.forEach(empId => {
+        const station = Object.keys(assignments).find(st => assignments[st].includes(empId));
+        // Joined the roster since: nowhere to put them in a rotation already under way
+        if (!station) assignments[GreenStation.OFF_SHIFT].push(empId);
+        if (station && station !== GreenStation.OFF_SHIFT) history[empId].push(station);
+        explainFixed(rotMeta.id, empId, station || GreenStation.OFF_SHIFT, 'frozen');
+      });
+      rotations.push({
+        id: rotMeta.id,
+        timeRange: `${rotMeta.start} - ${rotMeta.end}`,
+        assignments,
+        lunchBreaks: frozenRotation.lunchBreaks.filter(b => history[b.employeeId])
+      });
+      return;
+    }
 
     // 1. Categorize Employees for this Rotation
     const availablePool: string[] = [];
     const poolMap = new Set<string>(); // Fast lookup
+    const partlyPresent = new Set<string>(); // Late-arrival stations only
+    const partialNotes: string[] = [];
+    const belowThresholdNotes: string[] = [];
 
     employees.forEach(empId => {
-      // Check Shift Exceptions
-      const exception = shiftExceptions.find(e => e.employeeId === empId);
-      let isPresent = true;
-
-      if (exception) {
-        const shiftStartMins = getMinutes(exception.startTime);
-        const shiftEndMins = getMinutes(exception.endTime);
-        
-        // Relaxed Logic: Overlap means present
-        if (shiftEndMins <= rotStartMins || shiftStartMins >= rotEndMins) {
-           isPresent = false;
-        }
-      }
-
-      if (!isPresent) {
+      // Check Shift Exceptions: below the presence threshold means off shift
+      const missed = getMissedRanges(shiftExceptions, empId, rotStartMins, rotEndMins);
+      const presentFor = getPresence(shiftExceptions, empId, rotStartMins, rotEndMins, presence);
+      if (presentFor === 'absent') {
         assignments[GreenStation.OFF_SHIFT].push(empId);
+        explainFixed(rotMeta.id, empId, GreenStation.OFF_SHIFT, 'offShift');
+        const here = rotEndMins - rotStartMins - missed.reduce((acc, r) => acc + r.end - r.start, 0);
+        if (here > 0) belowThresholdNotes.push(`${getName(empId)} (here ${here} min)`);
         return;
       }
 
+      if (presentFor === 'partial') {
+        partlyPresent.add(empId);
+        partialNotes.push(`${getName(empId)} (misses ${formatMissed(missed)})`);
+      }
+
       // Check Side Tasks
       const sideTask = sideTasks.find(t => t.rotationId === rotMeta.id && t.employeeId === empId);
       if (sideTask) {
         assignments[GreenStation.SIDE_TASK].push(empId);
-        history[getName(empId)].push(GreenStation.SIDE_TASK);
+        history[empId].push(GreenStation.SIDE_TASK);
+        explainFixed(rotMeta.id, empId, GreenStation.SIDE_TASK, 'sideTask');
         notifications.push({
           id: `side-${rotMeta.id}-${empId}`,
           type: 'info',
@@ -111,30 +239,54 @@ export const generateGreenSchedule = (
       }
     });
 
+    if (partialNotes.length > 0) {
+      const lateStations = stations.filter(acceptsLateArrivals).map(st => st.name);
+      notifications.push({
+        id: `partial-${rotMeta.id}`,
+        type: 'info',
+        message: `Partially present in Rotation ${rotMeta.id}: ${partialNotes.join(', ')}. Only placed on ${lateStations.length > 0 ? lateStations.join(', ') : 'side tasks'}.`,
+        rotationId: rotMeta.id
+      });
+    }
+    if (belowThresholdNotes.length > 0) {
+      notifications.push({
+        id: `below-threshold-${rotMeta.id}`,
+        type: 'info',
+        message: `Off shift in Rotation ${rotMeta.id}, below the presence threshold: ${belowThresholdNotes.join(', ')}.`,
+        rotationId: rotMeta.id
+      });
+    }
+
     // 2. Process Forced Assignments (Manual Overrides) first
     // This allows manual moves in Rot 1 to immediately affect history for Rot 2
     const rotationForces = forcedAssignments.filter(f => f.rotationId === rotMeta.id);
     
     rotationForces.forEach(force => {
+        // Skip locks pointing at a station that was removed from the catalogue,
+        // or at someone who is no longer on the Green roster
+        if (!assignments[force.station] || !history[force.employeeId]) return;
+
         const forceName = getName(force.employeeId);
-        // Manual Override Validation Logic (Notify user if they break rules)
-        const past = history[forceName] || []; // Fallback empty if name somehow missing
-        const lastStation = past.length > 0 ? past[past.length - 1] : null;
+        const forcedStation = stationById(force.station);
 
-        // User requested notification for manual override of rules
-        if (lastStation === force.station) {
+        // Manual Override Validation Logic (Notify user if they break hard rules)
+        if (forcedStation) {
+          evaluateGreenRules(rules, forcedStation, history[force.employeeId], stations).broken.forEach(ruleId => {
             notifications.push({
-                id: `warn-force-repeat-${rotMeta.id}-${force.employeeId}`,
+                id: `warn-force-${ruleId}-${rotMeta.id}-${force.employeeId}`,
                 type: 'warning',
-                message: `Manual Override: ${forceName} is repeating ${force.station} consecutively in Rotation ${rotMeta.id}.`
+                message: `Manual Override: ${forceName} on ${forcedStation.name} in Rotation ${rotMeta.id} breaks "${describeGreenRule(ruleId, rules, stations)}".`,
+                rotationId: rotMeta.id
             });
+          });
         }
 
-        if (force.station === GreenStation.PLANETARIUM && past.includes(GreenStation.PLANETARIUM)) {
+        if (forcedStation && !isCertified(force.employeeId, forcedStation)) {
             notifications.push({
-                id: `warn-force-arora-${rotMeta.id}-${force.employeeId}`,
+                id: `warn-force-cert-${rotMeta.id}-${force.employeeId}`,
                 type: 'warning',
-                message: `Manual Override: ${forceName} is assigned Planetarium more than once.`
+                message: `Manual Override: ${forceName} is not certified for ${forcedStation.name} in Rotation ${rotMeta.id}.`,
+                rotationId: rotMeta.id
             });
         }
 
@@ -151,150 +303,520 @@ export const generateGreenSchedule = (
         // Add to assigned station
         if (!assignments[force.station].includes(force.employeeId)) {
           assignments[force.station].push(force.employeeId);
-          if (!history[forceName]) history[forceName] = [];
-          history[forceName].push(force.station);
+          explainFixed(rotMeta.id, force.employeeId, force.station, 'locked');
+          history[force.employeeId].push(force.station);
         }
     });
 
+    // Manual overrides can push a station past its catalogue maximum
+    stations.forEach(st => {
+      if (st.maxStaff !== null && assignments[st.id].length > st.maxStaff) {
+        notifications.push({
+          id: `warn-force-max-${rotMeta.id}-${st.id}`,
+          type: 'warning',
+          message: `Manual Override: ${st.name} has ${assignments[st.id].length} staff in Rotation ${rotMeta.id}, above its maximum of ${st.maxStaff}.`,
+          rotationId: rotMeta.id
+        });
+      }
+    });
+
+    // The plan this rotation had before the day was frozen, if any
+    const planned = frozen?.rotations.find(r => r.id === rotMeta.id);
+    const plannedStation = (empId: string) =>
+      planned ? Object.keys(planned.assignments).find(st => planned.assignments[st].includes(empId)) : undefined;
+
     // Shuffle remaining available pool for randomness
-    let availableEmployees = shuffle(availablePool);
+    let availableEmployees = shuffle(availablePool, random);
 
     // Helper to assign best candidate to a station
-    const assignBestCandidates = (station: GreenStation, targetCount: number) => {
+    const assignBestCandidates = (stationDef: GreenStationDef, targetCount: number) => {
+      const station = stationDef.id;
       // Calculate how many we still need after forced assignments
       const currentCount = assignments[station].length;
       const countNeeded = Math.max(0, targetCount - currentCount);
 
       for (let i = 0; i < countNeeded; i++) {
         if (availableEmployees.length === 0) {
-            // Log shortage only if we really need people
-            if (targetCount > 0) {
-               if (station !== GreenStation.MUSEUM) {
-                  notifications.push({
-                    id: `missing-${rotMeta.id}-${station}-${i}`,
-                    type: 'critical',
-                    message: `Not enough staff for ${station} in Rotation ${rotMeta.id}. Needed ${targetCount}, found ${assignments[station].length}.`,
-                    rotationId: rotMeta.id
-                  });
-               }
+            // Log shortage only if we really need people (seats up to the station minimum)
+            if (targetCount > 0 && targetCount <= stationDef.minStaff) {
+               notifications.push({
+                 id: `missing-${rotMeta.id}-${station}-${i}`,
+                 type: 'critical',
+                 message: `Not enough staff for ${stationDef.name} in Rotation ${rotMeta.id}. Needed ${targetCount}, found ${assignments[station].length}.`,
+                 rotationId: rotMeta.id
+               });
+            }
+            return;
+        }
+
+        // Certification is a hard constraint: uncertified staff are never candidates
+        // People only partly present are limited to stations that take late arrivals
+        const qualified = availableEmployees.filter(empId =>
+          isCertified(empId, stationDef) && (!partlyPresent.has(empId) || acceptsLateArrivals(stationDef))
+        );
+        if (qualified.length === 0) {
+            if (targetCount > 0 && targetCount <= stationDef.minStaff) {
+               notifications.push({
+                 id: `uncertified-${rotMeta.id}-${station}-${i}`,
+                 type: 'critical',
+                 message: `No certified staff available for ${stationDef.name} in Rotation ${rotMeta.id}. Needed ${targetCount}, found ${assignments[station].length}.`,
+                 rotationId: rotMeta.id
+               });
             }
             return;
         }
 
         // Score candidates based on history
-        const scoredCandidates = availableEmployees.map(empId => {
-          let score = 0;
-          const empName = getName(empId);
-          const past = history[empName] || [];
-          const lastStation = past.length > 0 ? past[past.length - 1] : null;
-          const secondLastStation = past.length > 1 ? past[past.length - 2] : null;
-          
-          // --- RULE 1: NO CONSECUTIVE REPEAT (Strict) ---
-          // "Never repeat stations in a row"
-          if (lastStation === station) {
-             score += 5000000; // Nuclear penalty
-          }
-          
-          // --- RULE 2: GAP OF 2 PREFERENCE (Strict) ---
-          // "At least 2 rotation of different station"
-          if (secondLastStation === station) {
-             score += 200000; // Major penalty
+        const scoredCandidates = qualified.map(empId => {
+          const past = history[empId] || [];
+
+          // --- RULES: no consecutive repeat, minimum gap, max per station, once-only, escape Museum ---
+          // Weights and hard/soft come from the rule settings; hard breaches rank below every clean candidate
+          const { broken, penalty, terms: ruleTerms } = evaluateGreenRules(rules, stationDef, past, stations);
+          let score = penalty;
+          // Every contribution is kept so the pick can be explained afterwards
+          const terms: ScoreTerm[] = [...ruleTerms];
+          const add = (label: string, points: number) => {
+             if (points === 0) return;
+             score += points;
+             terms.push({ label, points });
+          };
+
+          // --- HEURISTIC 2: SAVE ONCE-ONLY VIRGINS ---
+          // "Jack is doing twice Arora" - Fix
+          // Prefer picking Planetarium-Veterans for Ticket/Greeter to save the Virgins for the Planetarium slot.
+          if (!onceOnlyStations.includes(station) && onceOnlyStations.some(id => !past.includes(id))) {
+             add('Saved for once-only station', 2000); // Slight penalty: "Don't pick me for Ticket, save me for Planetarium"
           }
-          
-          // --- RULE 3: PLANETARIUM MAX ONCE (Strict) ---
-          // "Never repeat arora"
-          const hasDonePlanetarium = past.includes(GreenStation.PLANETARIUM);
-          if (station === GreenStation.PLANETARIUM && hasDonePlanetarium) {
-             score += 10000000; // Maximum penalty
+
+          // --- HEURISTIC 3: SAVE CERTIFIED STAFF ---
+          // Keep people certified for a restricted station free while it still needs its minimum
+          if (!stationDef.requiresCertification && stations.some(st =>
+            st.requiresCertification && assignments[st.id].length < st.minStaff && isCertified(empId, st)
+          )) {
+             add('Saved for certified station', 3000);
           }
 
-          // --- HEURISTIC 1: ESCAPE MUSEUM ---
-          // "Jarred repeats museum and in a row" - Fix
-          // If the candidate was in Museum last time, prioritize them for this Non-Museum station.
-          if (station !== GreenStation.MUSEUM && lastStation === GreenStation.MUSEUM) {
-             score -= 1000000; // Massive bonus to be picked
+          // --- HEURISTIC 4: FAIRNESS ACROSS DAYS ---
+          // The more someone worked this station on earlier days, the less likely they get it today.
+          // Time spent on overflow stations (Museum) earns a head start for the active ones instead.
+          if (stationDef.countsForRepeat) {
+             const prior = priorCounts[empId] || {};
+             const overflowExposure = stations
+               .filter(st => st.maxStaff === null)
+               .reduce((acc, st) => acc + (prior[st.id] || 0), 0);
+             add('Earlier days on this station', (prior[station] || 0) * 1000);
+             add('Earlier days on overflow', -overflowExposure * 500);
           }
 
-          // --- HEURISTIC 2: SAVE PLANETARIUM VIRGINS ---
-          // "Jack is doing twice Arora" - Fix
-          // Prefer picking Planetarium-Veterans for Ticket/Greeter to save the Virgins for the Planetarium slot.
-          if (station !== GreenStation.PLANETARIUM && !hasDonePlanetarium) {
-             score += 2000; // Slight penalty: "Don't pick me for Ticket, save me for Planetarium"
+          // --- HEURISTIC 5: KEEP THE PLAN ---
+          // After a mid-day rebalance, people stay where the day had them unless something forces a change.
+          // Worth more than every soft rule and heuristic together, so only hard rules or a gap move anyone.
+          // Taking someone off a station with a maximum leaves a seat to refill; overflow stations can spare them.
+          const plannedAt = plannedStation(empId);
+          if (plannedAt === station) {
+             add('Planned here before rebalancing', -keepPlanWeight);
+          } else if (plannedAt && stationById(plannedAt)?.maxStaff != null) {
+             add('Planned elsewhere before rebalancing', keepPlanWeight);
           }
 
-          // --- RULE 4: MAX 2 TIMES SAME STATION (Strict) ---
+          // Soft Rule: Variety
           const timesDone = past.filter(s => s === station).length;
-          if (timesDone >= 2) {
-             score += 10000000; // Nuclear penalty
-          } else {
-             // Soft Rule: Variety
-             score += (timesDone * 1000);
-          }
+          add('Times here today', timesDone * 1000);
 
           // Random factor
-          score += Math.random() * 10;
+          add('Random tie-break', random() * 10);
 
-          return { empId, score };
+          return { empId, score, broken, terms };
         });
 
-        // Sort by score ascending (lowest score is best)
-        scoredCandidates.sort((a, b) => a.score - b.score);
+        // Fewest hard breaches first, then by score ascending (lowest score is best)
+        scoredCandidates.sort((a, b) => a.broken.length - b.broken.length || a.score - b.score);
         const bestCandidate = scoredCandidates[0];
         const best = bestCandidate.empId;
         const bestName = getName(best);
 
-        // Validation Logging
-        const past = history[bestName] || [];
-        const lastStation = past.length > 0 ? past[past.length - 1] : null;
-
-        // Warn if strict rules are broken (shouldn't happen with these scores unless 1 person is left)
-        if (lastStation === station && station !== GreenStation.MUSEUM) {
+        explanations[`${rotMeta.id}:${best}`] = {
+          rotationId: rotMeta.id,
+          employeeId: best,
+          station,
+          reason: 'scored',
+          seat: assignments[station].length + 1,
+          candidates: scoredCandidates.map(c => ({ employeeId: c.empId, terms: c.terms, total: c.score, broken: c.broken }))
+        };
+
+        // Warn if hard rules are broken (only happens when nobody else can take the seat)
+        bestCandidate.broken.forEach(ruleId => {
             notifications.push({
-                id: `warn-repeat-${rotMeta.id}-${best}`,
-                type: 'warning',
-                message: `${bestName} is repeating ${station} back-to-back in Rotation ${rotMeta.id} (No other options).`,
+                id: `warn-${ruleId}-${rotMeta.id}-${best}`,
+                type: ruleId === 'onceOnly' ? 'critical' : 'warning',
+                message: `${bestName} on ${stationDef.name} in Rotation ${rotMeta.id} breaks "${GREEN_RULE_LABELS[ruleId]}": ${describeGreenRule(ruleId, rules, stations)} (No other options).`,
                 rotationId: rotMeta.id
             });
-        }
-        
-        if (station === GreenStation.PLANETARIUM && past.includes(GreenStation.PLANETARIUM)) {
-             notifications.push({
-                id: `warn-limit-arora-${rotMeta.id}-${best}`,
-                type: 'critical',
-                message: `${bestName} is assigned Planetarium for the 2nd time (Logic failed).`,
-                rotationId: rotMeta.id
-            });
-        }
+        });
         
         assignments[station].push(best);
-        if (!history[bestName]) history[bestName] = [];
-        history[bestName].push(station);
+        history[best].push(station);
         
         availableEmployees = availableEmployees.filter(e => e !== best);
       }
     };
 
     // --- PRIORITIES ---
-    // 1. Ticket (1st)
-    assignBestCandidates(GreenStation.TICKET, 1);
-    // 2. Greeter (1st)
-    assignBestCandidates(GreenStation.GREETER, 1);
-    // 3. Planetarium (1st)
-    assignBestCandidates(GreenStation.PLANETARIUM, 1);
-    // 4. Ticket (2nd)
-    assignBestCandidates(GreenStation.TICKET, 2);
-
-    // 5. Museum (Dump)
-    const currentMuseumCount = assignments[GreenStation.MUSEUM].length;
-    const remainingCount = availableEmployees.length;
-    assignBestCandidates(GreenStation.MUSEUM, currentMuseumCount + remainingCount);
+    // Seats are handed out round by round in catalogue priority order,
+    // e.g. Ticket 1, Greeter 1, Planetarium 1, then Ticket 2.
+    const fillRounds = (candidates: GreenStationDef[], fromSeat: (st: GreenStationDef) => number, toSeat: (st: GreenStationDef) => number) => {
+      const lastRound = Math.max(0, ...candidates.map(toSeat));
+      for (let round = 1; round <= lastRound; round++) {
+        candidates.forEach(st => {
+          if (round >= fromSeat(st) && round <= toSeat(st)) {
+            assignBestCandidates(st, round);
+          }
+        });
+      }
+    };
+
+    // 1. Minimum headcount for every station
+    fillRounds(stationsByPriority, () => 1, st => st.minStaff);
+
+    // 2. Optional seats up to each capped station's maximum
+    const cappedStations = stationsByPriority.filter(st => st.maxStaff !== null);
+    fillRounds(cappedStations, st => st.minStaff + 1, st => st.maxStaff ?? 0);
+
+    // 3. Unlimited stations (Museum) absorb everyone left, spread evenly
+    const overflowStations = stationsByPriority.filter(st => st.maxStaff === null);
+    if (overflowStations.length > 0) {
+      while (availableEmployees.length > 0) {
+        const remaining = availableEmployees.length;
+        overflowStations.forEach(st => assignBestCandidates(st, assignments[st.id].length + 1));
+        if (availableEmployees.length === remaining) break; // Nobody left is certified for them
+      }
+    } else if (availableEmployees.length > 0 && stationsByPriority.length > 0) {
+      // Every station is full: park the rest on the lowest priority station and say so
+      const lastStation = stationsByPriority[stationsByPriority.length - 1];
+      notifications.push({
+        id: `overflow-${rotMeta.id}`,
+        type: 'warning',
+        message: `All stations are at capacity in Rotation ${rotMeta.id}. ${availableEmployees.map(getName).join(', ')} placed on ${lastStation.name} above its maximum.`,
+        rotationId: rotMeta.id
+      });
+      assignBestCandidates(lastStation, assignments[lastStation.id].length + availableEmployees.length);
+    }
+
+    // Anyone not certified for a station with room left does side work instead
+    const uncertifiedLeft = availableEmployees.filter(empId => !partlyPresent.has(empId));
+    if (uncertifiedLeft.length > 0) {
+      notifications.push({
+        id: `uncertified-leftover-${rotMeta.id}`,
+        type: 'warning',
+        message: `${uncertifiedLeft.map(getName).join(', ')} not certified for any open station in Rotation ${rotMeta.id}. Moved to Side Task.`,
+        rotationId: rotMeta.id
+      });
+    }
+    // Likewise anyone partly present once the late-arrival stations are full
+    const partialLeft = availableEmployees.filter(empId => partlyPresent.has(empId));
+    if (partialLeft.length > 0) {
+      notifications.push({
+        id: `partial-leftover-${rotMeta.id}`,
+        type: 'warning',
+        message: `${partialLeft.map(getName).join(', ')} only partly present and no late-arrival station has room in Rotation ${rotMeta.id}. Moved to Side Task.`,
+        rotationId: rotMeta.id
+      });
+    }
+    availableEmployees.forEach(empId => {
+      assignments[GreenStation.SIDE_TASK].push(empId);
+      history[empId].push(GreenStation.SIDE_TASK);
+      explainFixed(rotMeta.id, empId, GreenStation.SIDE_TASK, partlyPresent.has(empId) ? 'partial' : 'uncertified');
+    });
+    availableEmployees = [];
 
     rotations.push({
       id: rotMeta.id,
       timeRange: `${rotMeta.start} - ${rotMeta.end}`,
-      assignments
+      assignments,
+      lunchBreaks: []
+    });
+  });
+
+  if (lunchConfig) {
+    // Breaks in frozen rotations stand; new ones only go after the last of them
+    const frozenUntil = rotationsMeta.filter(r => getFrozenRotation(frozen, r)).reduce((acc, r) => Math.max(acc, getMinutes(r.end)), -1);
+    planLunchBreaks(employees, rotations, shiftExceptions, lunchConfig, stations, isCertified, notifications, getName, frozenUntil);
+  }
+
+  return { rotations, notifications, seed, explanations };
+};
+
+/**
+ * Adds the rotations each person worked in `schedule` to a running tally, each one
+ * counting `weight`. Side tasks and time off shift are not stations and are left out.
+ */
+export const tallyGreenStations = (schedule: GeneratedGreenSchedule, tally: StationTally = {}, weight = 1): StationTally => {
+  const result: StationTally = {};
+  Object.entries(tally).forEach(([empId, counts]) => {
+    result[empId] = { ...counts };
+  });
+
+  schedule.rotations.forEach(rotation => {
+    Object.entries(rotation.assignments).forEach(([station, ids]) => {
+      if (station === GreenStation.SIDE_TASK || station === GreenStation.OFF_SHIFT) return;
+      ids.forEach(empId => {
+        result[empId] = result[empId] || {};
+        result[empId][station] = (result[empId][station] || 0) + weight;
+      });
     });
   });
 
-  return { rotations, notifications };
+  return result;
+};
+
+// --- Candidate Comparison ---
+
+/**
+ * Rates a generated day; lower is better on every count.
+ * Variety counts repeat visits to rotating stations, fairness adds up how unevenly each
+ * rotating station is spread across the roster once `priorCounts` is included.
+ */
+export const scoreGreenSchedule = (
+  schedule: GeneratedGreenSchedule,
+  employees: string[],
+  stations: GreenStationDef[] = DEFAULT_GREEN_STATIONS,
+  priorCounts: StationTally = {}
+): GreenScheduleScore => {
+  const critical = schedule.notifications.filter(n => n.type === 'critical').length;
+  const warning = schedule.notifications.filter(n => n.type === 'warning').length;
+
+  const today = tallyGreenStations(schedule);
+  const overall = tallyGreenStations(schedule, priorCounts);
+  const rotating = stations.filter(st => st.countsForRepeat);
+
+  const repeats = employees.reduce((acc, empId) =>
+    acc + rotating.reduce((sum, st) => sum + Math.max(0, (today[empId]?.[st.id] || 0) - 1), 0), 0);
+
+  const fairness = employees.length === 0 ? 0 : rotating.reduce((acc, st) => {
+    const counts = employees.map(empId => overall[empId]?.[st.id] || 0);
+    return acc + Math.max(...counts) - Math.min(...counts);
+  }, 0);
+
+  return {
+    critical,
+    warning,
+    repeats,
+    fairness: Math.round(fairness * 10) / 10,
+    total: critical * 1000 + warning * 100 + repeats * 10 + fairness
+  };
+};
+
+/**
+ * Generates `count` candidates from consecutive seeds starting at `firstSeed`,
+ * best first. Inputs are the same as for `generateGreenSchedule`; `generate` is the
+ * solver the chosen seed will be applied with, so the preview matches what gets applied.
+ */
+export const generateGreenCandidates = (
+  employees: string[],
+  sideTasks: SideTaskRule[],
+  shiftExceptions: ShiftException[],
+  forcedAssignments: ForcedAssignment[],
+  greenEmployeeNames: Record<string, string>,
+  options: GreenScheduleOptions,
+  count: number,
+  firstSeed: number,
+  generate: typeof generateGreenSchedule = generateGreenSchedule
+): GreenCandidate[] =>
+  Array.from({ length: Math.max(0, count) }, (_, i) => {
+    const seed = firstSeed + i;
+    const schedule = generate(employees, sideTasks, shiftExceptions, forcedAssignments, greenEmployeeNames, { ...options, seed });
+    return { seed, schedule, score: scoreGreenSchedule(schedule, employees, options.stations, options.priorCounts) };
+  }).sort((a, b) => a.score.total - b.score.total || a.seed - b.seed);
+
+// Where everyone works in each rotation: "rotationId:employeeId" -> station ID
+export const getPlacements = (schedule: GeneratedGreenSchedule): Record<string, string> => {
+  const result: Record<string, string> = {};
+  schedule.rotations.forEach(rotation => {
+    Object.entries(rotation.assignments).forEach(([station, ids]) => {
+      ids.forEach(empId => {
+        result[`${rotation.id}:${empId}`] = station;
+      });
+    });
+  });
+  return result;
+};
+
+/** Number of (rotation, person) placements that differ between two schedules. */
+export const countAssignmentChanges = (a: GeneratedGreenSchedule, b: GeneratedGreenSchedule): number => {
+  const left = getPlacements(a);
+  const right = getPlacements(b);
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+  return Array.from(keys).filter(key => left[key] !== right[key]).length;
+};
+
+// The stretch of a lunch slot that falls inside one rotation
+interface SlotPart {
+  rotation: GreenRotation;
+  start: number;
+  end: number;
+  covers: Record<string, string>; // employeeId -> station they stand in at for someone on break
+}
+
+interface LunchSlot {
+  start: number;
+  end: number;
+  onBreak: string[];
+  parts: SlotPart[]; // One per rotation the slot overlaps
+}
+
+// How someone can leave for one part of a slot: freely, or with `cover` standing in at `station`
+interface LunchPlan {
+  cover: string | null;
+  station?: GreenStationDef;
+}
+
+/**
+ * Staggers lunch breaks across the lunch window.
+ * The window is cut into back-to-back slots of `duration` minutes. Someone on the floor may
+ * only leave if their station keeps its minimum without them, or if a certified colleague from
+ * a station with room to spare stands in for them. A slot running into the next rotation has
+ * to work in both: each rotation's part is checked, covered and recorded on its own.
+ */
+const planLunchBreaks = (
+  employees: string[],
+  rotations: GreenRotation[],
+  shiftExceptions: ShiftException[],
+  lunchConfig: LunchConfig,
+  stations: GreenStationDef[],
+  isCertified: (empId: string, st: GreenStationDef) => boolean,
+  notifications: GreenNotification[],
+  getName: (id: string) => string,
+  frozenUntil: number = -1 // Minutes; no new breaks start before this
+) => {
+  const windowStart = getMinutes(lunchConfig.windowStart);
+  const windowEnd = getMinutes(lunchConfig.windowEnd);
+  const { duration } = lunchConfig;
+
+  // Ignore the window while the user is still typing it
+  if (isNaN(windowStart) || isNaN(windowEnd) || duration <= 0 || windowEnd - windowStart < duration) {
+    return;
+  }
+
+  const slots: LunchSlot[] = Array.from({ length: Math.floor((windowEnd - windowStart) / duration) }, (_, i) => {
+    const start = windowStart + i * duration;
+    const end = start + duration;
+    const parts = rotations
+      .map(rotation => {
+        const [rotStart, rotEnd] = rotation.timeRange.split(' - ').map(getMinutes);
+        return { rotation, start: Math.max(start, rotStart), end: Math.min(end, rotEnd), covers: {} };
+      })
+      .filter(part => part.start < part.end);
+    return { start, end, onBreak: [], parts };
+  });
+
+  const coversRange = (empId: string, range: { start: number; end: number }) =>
+    getMissedRanges(shiftExceptions, empId, range.start, range.end).length === 0;
+
+  // The catalogue station someone works during the part, if they are there for all of it
+  const floorStation = (empId: string, part: SlotPart): GreenStationDef | undefined => {
+    if (!coversRange(empId, part)) return undefined;
+    const station = Object.keys(part.rotation.assignments).find(st => part.rotation.assignments[st].includes(empId));
+    return stations.find(st => st.id === station);
+  };
+
+  const isBusy = (empId: string, slot: LunchSlot, part: SlotPart) => slot.onBreak.includes(empId) || !!part.covers[empId];
+
+  // People actually at a station during the part: its own staff still there plus anyone standing in
+  const headcount = (st: GreenStationDef, slot: LunchSlot, part: SlotPart) => {
+    const own = (part.rotation.assignments[st.id] || []).filter(id => coversRange(id, part) && !isBusy(id, slot, part)).length;
+    return own + Object.values(part.covers).filter(id => id === st.id).length;
+  };
+  const spare = (st: GreenStationDef, slot: LunchSlot, part: SlotPart) => headcount(st, slot, part) - st.minStaff;
+
+  // null when their station would drop below its minimum and nobody can stand in
+  const planPart = (empId: string, slot: LunchSlot, part: SlotPart): LunchPlan | null => {
+    const station = floorStation(empId, part);
+    if (!station || spare(station, slot, part) > 0) return { cover: null };
+
+    const cover = employees
+      .filter(id => id !== empId && !isBusy(id, slot, part) && isCertified(id, station))
+      .map(id => ({ id, from: floorStation(id, part) }))
+      .filter(c => c.from && c.from.id !== station.id && spare(c.from, slot, part) > 0)
+      .sort((a, b) => spare(b.from!, slot, part) - spare(a.from!, slot, part))[0];
+    return cover ? { cover: cover.id, station } : null;
+  };
+
+  // One plan per part; null when they cannot leave in the slot at all
+  const planSlot = (empId: string, slot: LunchSlot): LunchPlan[] | null => {
+    if (slot.parts.some(part => isBusy(empId, slot, part))) return null;
+    const plans = slot.parts.map(part => planPart(empId, slot, part));
+    return plans.every((plan): plan is LunchPlan => plan !== null) ? plans : null;
+  };
+
+  const recordBreak = (empId: string, slot: LunchSlot, part: SlotPart, plan: LunchPlan) => {
+    if (plan.cover && plan.station) part.covers[plan.cover] = plan.station.id;
+    part.rotation.lunchBreaks.push({
+      employeeId: empId,
+      startTime: toTimeString(slot.start),
+      endTime: toTimeString(slot.end),
+      rotationId: part.rotation.id,
+      ...(plan.cover && plan.station ? { station: plan.station.id, coveredBy: plan.cover } : {})
+    });
+  };
+
+  const shortNotice = (empId: string, slot: LunchSlot) => {
+    const part = slot.parts.find(p => planPart(empId, slot, p) === null) ?? slot.parts[0];
+    const station = part && floorStation(empId, part);
+    notifications.push({
+      id: `lunch-missing-${empId}`,
+      type: 'critical',
+      message: `Not enough staff to cover lunch for ${getName(empId)} (${lunchConfig.windowStart}-${lunchConfig.windowEnd}): ${station?.name || 'their station'} would drop below its minimum and nobody certified is free to stand in.`,
+      rotationId: part?.rotation.id
+    });
+  };
+
+  // Breaks kept from frozen rotations
+  const hadLunch = new Set<string>();
+  rotations.forEach(r => r.lunchBreaks.forEach(b => {
+    hadLunch.add(b.employeeId);
+    const slot = slots.find(sl => sl.start === getMinutes(b.startTime));
+    if (!slot) return;
+    if (!slot.onBreak.includes(b.employeeId)) slot.onBreak.push(b.employeeId);
+    const part = slot.parts.find(p => p.rotation === r);
+    if (part && b.coveredBy && b.station) part.covers[b.coveredBy] = b.station;
+  }));
+  // A kept break running on into a rotation planned afresh still needs that part covered
+  slots.forEach(slot => slot.onBreak.forEach(empId => {
+    slot.parts
+      .filter(part => !part.rotation.lunchBreaks.some(b => b.employeeId === empId))
+      .forEach(part => {
+        const plan = planPart(empId, slot, part);
+        if (plan) recordBreak(empId, slot, part, plan);
+        else shortNotice(empId, slot);
+      });
+  }));
+
+  // Most constrained people (fewest possible slots) pick first
+  const candidates = employees
+    .filter(empId => !hadLunch.has(empId))
+    .map(empId => ({ empId, eligible: slots.filter(slot => slot.start >= frozenUntil && coversRange(empId, slot)) }))
+    .filter(c => c.eligible.length > 0)
+    .sort((a, b) => a.eligible.length - b.eligible.length);
+
+  candidates.forEach(({ empId, eligible }) => {
+    // Prefer slots needing no cover, then the emptiest so breaks spread out; ties go to the earliest
+    const best = eligible
+      .map(slot => ({ slot, plans: planSlot(empId, slot) }))
+      .filter((o): o is { slot: LunchSlot; plans: LunchPlan[] } => o.plans !== null)
+      .sort((a, b) =>
+        Number(a.plans.some(p => p.cover)) - Number(b.plans.some(p => p.cover)) || a.slot.onBreak.length - b.slot.onBreak.length
+      )[0];
+
+    if (!best) {
+      shortNotice(empId, eligible[0]);
+      return;
+    }
+
+    const { slot, plans } = best;
+    slot.onBreak.push(empId);
+    slot.parts.forEach((part, i) => recordBreak(empId, slot, part, plans[i]));
+  });
+
+  rotations.forEach(r => r.lunchBreaks.sort((a, b) => getMinutes(a.startTime) - getMinutes(b.startTime)));
 };
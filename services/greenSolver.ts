@@ -0,0 +1,407 @@
+import { GreenStation, GreenStationDef, SideTaskRule, ShiftException, ForcedAssignment, GeneratedGreenSchedule, GreenScheduleOptions, GreenSolverReport, GreenRules, GreenRuleId } from '../types';
+import { generateGreenSchedule, createRandom, randomSeed, sortStations, getPresence, acceptsLateArrivals, getFrozenRotation, DEFAULT_ROTATIONS_META, DEFAULT_GREEN_STATIONS } from './greenScheduler';
+import { DEFAULT_GREEN_RULES, evaluateGreenRules, describeGreenRule, getHardRuleIds } from './greenRules';
+import { getMinutes } from './shifts';
+import { nextTick } from './scheduler';
+
+// --- Exact Green Solver ---
+// Backtracking search over every (rotation, person) placement. Unlike the greedy pass it
+// can undo earlier rotations, so every enabled hard rule holds for the whole day or the
+// day is reported infeasible with the reason. The solved placements are then handed to
+// generateGreenSchedule as locks, which keeps notifications and lunch planning identical.
+
+const NODE_LIMIT = 50000; // Search steps before giving up on a day
+const RELAXED_NODE_LIMIT = 20000; // Per relaxed re-run while explaining
+
+interface RotationProblem {
+  id: number;
+  fixed: Record<string, string>; // employeeId -> station set by a lock or side task
+  free: string[]; // People the solver places
+  partial: string[]; // Free people only partly present: late-arrival stations only
+  need: Record<string, number>; // Station ID -> seats still to fill up to the minimum
+  room: Record<string, number>; // Station ID -> seats left before the maximum
+}
+
+interface SearchResult {
+  status: 'solved' | 'infeasible' | 'limit';
+  placements: ForcedAssignment[];
+  nodes: number;
+}
+
+/**
+ * Splits each rotation into fixed placements (locks, side tasks) and free people, with the
+ * seat counts the free people must cover. Minimums the roster cannot reach are lowered the
+ * way the greedy pass fills them: round by round in priority order. Frozen rotations are
+ * fixed throughout.
+ */
+const buildProblems = (
+  employees: string[],
+  sideTasks: SideTaskRule[],
+  shiftExceptions: ShiftException[],
+  forcedAssignments: ForcedAssignment[],
+  options: GreenScheduleOptions
+): RotationProblem[] => {
+  const { rotations: rotationsMeta = DEFAULT_ROTATIONS_META, stations = DEFAULT_GREEN_STATIONS, presence } = options;
+  const byPriority = sortStations(stations);
+  const hasOverflow = stations.some(st => st.maxStaff === null);
+
+  return rotationsMeta.map(rotMeta => {
+    const rotStart = getMinutes(rotMeta.start);
+    const rotEnd = getMinutes(rotMeta.end);
+    const fixed: Record<string, string> = {};
+    const free: string[] = [];
+    const partial: string[] = [];
+
+    const frozenRotation = getFrozenRotation(options.frozen, rotMeta);
+    if (frozenRotation) {
+      employees.forEach(empId => {
+        const station = Object.keys(frozenRotation.assignments).find(st => frozenRotation.assignments[st].includes(empId));
+        if (station && station !== GreenStation.OFF_SHIFT) fixed[empId] = station;
+      });
+      const none = Object.fromEntries(stations.map(st => [st.id, 0]));
+      return { id: rotMeta.id, fixed, free, partial, need: none, room: { ...none } };
+    }
+
+    employees.forEach(empId => {
+      const force = forcedAssignments.find(f => f.rotationId === rotMeta.id && f.employeeId === empId && (stations.some(st => st.id === f.station) || f.station === GreenStation.SIDE_TASK || f.station === GreenStation.OFF_SHIFT));
+      if (force) {
+        if (force.station !== GreenStation.OFF_SHIFT) fixed[empId] = force.station;
+        return;
+      }
+      const presentFor = getPresence(shiftExceptions, empId, rotStart, rotEnd, presence);
+      if (presentFor === 'absent') return;
+      if (sideTasks.some(t => t.rotationId === rotMeta.id && t.employeeId === empId)) {
+        fixed[empId] = GreenStation.SIDE_TASK;
+        return;
+      }
+      free.push(empId);
+      if (presentFor === 'partial') partial.push(empId);
+    });
+
+    const count: Record<string, number> = {};
+    stations.forEach(st => {
+      count[st.id] = Object.values(fixed).filter(s => s === st.id).length;
+    });
+
+    // Hand out the free people seat by seat, as the greedy pass would.
+    // Late-arrival stations use up the partly present first.
+    let fullPool = free.length - partial.length;
+    let partialPool = partial.length;
+    const reachable: Record<string, number> = { ...count };
+    const lastRound = Math.max(0, ...stations.map(st => st.minStaff));
+    for (let round = 1; round <= lastRound; round++) {
+      byPriority.forEach(st => {
+        if (round > st.minStaff || reachable[st.id] >= round) return;
+        if (acceptsLateArrivals(st) && partialPool > 0) {
+          reachable[st.id]++;
+          partialPool--;
+        } else if (fullPool > 0) {
+          reachable[st.id]++;
+          fullPool--;
+        }
+      });
+    }
+
+    const need: Record<string, number> = {};
+    const room: Record<string, number> = {};
+    byPriority.forEach((st, i) => {
+      need[st.id] = Math.max(0, Math.min(st.minStaff, reachable[st.id]) - count[st.id]);
+      // Without an overflow station the lowest priority one takes whoever is left
+      const unlimited = st.maxStaff === null || (!hasOverflow && i === byPriority.length - 1);
+      room[st.id] = unlimited ? Infinity : Math.max(0, (st.maxStaff ?? 0) - count[st.id]);
+    });
+
+    return { id: rotMeta.id, fixed, free, partial, need, room };
+  });
+};
+
+const search = (
+  problems: RotationProblem[],
+  employees: string[],
+  stations: GreenStationDef[],
+  options: GreenScheduleOptions,
+  rules: GreenRules,
+  seed: number,
+  nodeLimit: number
+): SearchResult => {
+  const { certifications = {}, priorCounts = {} } = options;
+  const hard = getHardRuleIds(rules);
+  const random = createRandom(seed);
+  const byPriority = sortStations(stations);
+  const isCertified = (empId: string, st: GreenStationDef) =>
+    !st.requiresCertification || (certifications[empId] || []).includes(st.id);
+
+  const history: Record<string, string[]> = {};
+  employees.forEach(id => { history[id] = []; });
+  const placed: Record<string, number>[] = problems.map(() => ({}));
+  const placements: ForcedAssignment[] = [];
+  let nodes = 0;
+
+  // Random tie-breaks are drawn once so the search order is stable within a run
+  const order = problems.map(p => p.free
+    .map(empId => ({ empId, key: random() }))
+    .sort((a, b) => a.key - b.key)
+    .map(x => x.empId));
+  const jitter: Record<string, number> = {};
+  // After a mid-day rebalance, the plan each rotation had before the freeze
+  const planned = problems.map(p => options.frozen?.rotations.find(r => r.id === p.id));
+
+  // Seats still needed from rotation `from` onwards cannot exceed what people can still give
+  const lookaheadOk = (from: number): boolean => {
+    const remaining = problems.slice(from);
+    if (hard.includes('onceOnly')) {
+      for (const st of stations.filter(def => rules.onceOnly.stations.includes(def.id))) {
+        const seats = remaining.reduce((acc, p) => acc + (p.need[st.id] || 0), 0);
+        if (seats === 0) continue;
+        const fresh = employees.filter(empId =>
+          !history[empId].includes(st.id) && isCertified(empId, st) &&
+          remaining.some(p => p.free.includes(empId))
+        ).length;
+        if (seats > fresh) return false;
+      }
+    }
+    if (hard.includes('maxPerStation')) {
+      for (const st of stations) {
+        if (!st.countsForRepeat) continue;
+        const seats = remaining.reduce((acc, p) => acc + (p.need[st.id] || 0), 0);
+        if (seats === 0) continue;
+        const capacity = employees.reduce((acc, empId) => {
+          if (!isCertified(empId, st)) return acc;
+          const left = Math.max(0, rules.maxPerStation.limit - history[empId].filter(s => s === st.id).length);
+          return acc + Math.min(left, remaining.filter(p => p.free.includes(empId)).length);
+        }, 0);
+        if (seats > capacity) return false;
+      }
+    }
+    return true;
+  };
+
+  const deficit = (r: number) =>
+    stations.reduce((acc, st) => acc + Math.max(0, problems[r].need[st.id] - (placed[r][st.id] || 0)), 0);
+
+  const candidatesFor = (r: number, empId: string): string[] => {
+    const p = problems[r];
+    const past = history[empId];
+    const isPartial = p.partial.includes(empId);
+    const choices = byPriority
+      .filter(st => isCertified(empId, st) && (!isPartial || acceptsLateArrivals(st)) && (placed[r][st.id] || 0) < p.room[st.id])
+      .map(st => ({ st, check: evaluateGreenRules(rules, st, past, stations) }))
+      .filter(({ check }) => check.broken.length === 0)
+      .map(({ st, check }) => {
+        // The plan before a rebalance comes first, then seats below a minimum, then the soft
+        // rules as the greedy pass scores them
+        const kept = !!planned[r]?.assignments[st.id]?.includes(empId);
+        const short = (placed[r][st.id] || 0) < p.need[st.id];
+        let key = check.penalty + past.filter(s => s === st.id).length * 1000;
+        if (st.countsForRepeat) key += (priorCounts[empId]?.[st.id] || 0) * 1000;
+        const tie = `${r}:${empId}:${st.id}`;
+        jitter[tie] = jitter[tie] ?? random();
+        return { id: st.id, kept, short, key: key + jitter[tie] * 10 };
+      })
+      .sort((a, b) => Number(b.kept) - Number(a.kept) || Number(b.short) - Number(a.short) || a.key - b.key)
+      .map(o => o.id);
+
+    // Someone certified for no catalogue station at all does side work, as in the greedy pass;
+    // so does someone partly present once the late-arrival stations are full
+    if (isPartial) return [...choices, GreenStation.SIDE_TASK];
+    if (choices.length === 0 && !stations.some(st => isCertified(empId, st))) {
+      return [GreenStation.SIDE_TASK];
+    }
+    return choices;
+  };
+
+  const placeFixed = (r: number, add: boolean) => {
+    Object.entries(problems[r].fixed).forEach(([empId, station]) => {
+      if (add) history[empId].push(station);
+      else history[empId].pop();
+    });
+  };
+
+  const solveFrom = (r: number, i: number): boolean => {
+    if (nodes++ > nodeLimit) throw new Error('limit');
+    if (r === problems.length) return true;
+
+    if (i === 0) {
+      placeFixed(r, true);
+      if (!lookaheadOk(r) || deficit(r) > order[r].length) {
+        placeFixed(r, false);
+        return false;
+      }
+    }
+
+    if (i === order[r].length) {
+      if (deficit(r) === 0 && solveFrom(r + 1, 0)) return true;
+      if (i === 0) placeFixed(r, false);
+      return false;
+    }
+
+    const empId = order[r][i];
+    for (const station of candidatesFor(r, empId)) {
+      placed[r][station] = (placed[r][station] || 0) + 1;
+      history[empId].push(station);
+      placements.push({ rotationId: problems[r].id, station, employeeId: empId });
+
+      if (deficit(r) <= order[r].length - i - 1 && solveFrom(r, i + 1)) return true;
+
+      placements.pop();
+      history[empId].pop();
+      placed[r][station]--;
+    }
+
+    if (i === 0) placeFixed(r, false);
+    return false;
+  };
+
+  try {
+    const solved = solveFrom(0, 0);
+    return { status: solved ? 'solved' : 'infeasible', placements: solved ? [...placements] : [], nodes };
+  } catch (e) {
+    return { status: 'limit', placements: [], nodes };
+  }
+};
+
+/**
+ * Works out why no placement satisfies the hard rules by counting seats against the people
+ * able to take them. Which rule is in the way takes more searching; see findBlockingRules.
+ */
+const explain = (
+  problems: RotationProblem[],
+  employees: string[],
+  stations: GreenStationDef[],
+  options: GreenScheduleOptions,
+  rules: GreenRules
+): string[] => {
+  const { certifications = {} } = options;
+  const hard = getHardRuleIds(rules);
+  const reasons: string[] = [];
+  const isCertified = (empId: string, st: GreenStationDef) =>
+    !st.requiresCertification || (certifications[empId] || []).includes(st.id);
+  const freeIn = (empId: string) => problems.filter(p => p.free.includes(empId));
+  const label = (id: GreenRuleId) => describeGreenRule(id, rules, stations);
+
+  if (hard.includes('onceOnly')) {
+    stations.filter(st => rules.onceOnly.stations.includes(st.id)).forEach(st => {
+      const seats = problems.reduce((acc, p) => acc + p.need[st.id], 0);
+      const eligible = employees.filter(empId => isCertified(empId, st) && freeIn(empId).some(p => p.need[st.id] > 0)).length;
+      if (seats > eligible) {
+        reasons.push(`${st.name} needs ${seats} people across the day but only ${eligible} can take it, and nobody may do it twice (${label('onceOnly')}).`);
+      }
+    });
+  }
+
+  if (hard.includes('maxPerStation')) {
+    const { limit } = rules.maxPerStation;
+    stations.filter(st => st.countsForRepeat).forEach(st => {
+      const seats = problems.reduce((acc, p) => acc + p.need[st.id], 0);
+      const capacity = employees.reduce((acc, empId) =>
+        acc + (isCertified(empId, st) ? Math.min(limit, freeIn(empId).length) : 0), 0);
+      if (seats > capacity) {
+        reasons.push(`${st.name} needs ${seats} seats across the day but at ${limit} each the people available cover only ${capacity} (${label('maxPerStation')}).`);
+      }
+    });
+  }
+
+  problems.forEach((p, r) => {
+    const next = problems[r + 1];
+    stations.forEach(st => {
+      const certified = p.free.filter(empId => isCertified(empId, st) && (acceptsLateArrivals(st) || !p.partial.includes(empId))).length;
+      if (p.need[st.id] > certified) {
+        reasons.push(`Rotation ${p.id}: ${st.name} needs ${p.need[st.id]} more certified staff but only ${certified} are free.`);
+      }
+      // Whoever works it now cannot work it next rotation
+      if (next && st.countsForRepeat && hard.includes('noConsecutiveRepeat')) {
+        const both = p.need[st.id] + next.need[st.id];
+        const pool = new Set([...p.free, ...next.free].filter(empId => isCertified(empId, st))).size;
+        if (both > pool) {
+          reasons.push(`${st.name} needs ${p.need[st.id]} in Rotation ${p.id} and ${next.need[st.id]} in Rotation ${next.id}, but only ${pool} people can alternate (${label('noConsecutiveRepeat')}).`);
+        }
+      }
+    });
+  });
+
+  if (reasons.length === 0) {
+    reasons.push('No single headcount explains it.');
+  }
+  return reasons;
+};
+
+/**
+ * Which hard rules, switched off on their own, would make the day feasible. Re-runs the search
+ * once per rule, so it only runs when asked for and yields between the re-runs.
+ * Same inputs as solveGreenSchedule.
+ */
+export const findBlockingRules = (
+  employees: string[],
+  sideTasks: SideTaskRule[],
+  shiftExceptions: ShiftException[],
+  forcedAssignments: ForcedAssignment[] = [],
+  options: GreenScheduleOptions = {}
+): Promise<string[]> => {
+  const { stations = DEFAULT_GREEN_STATIONS, seed = randomSeed(), rules = DEFAULT_GREEN_RULES } = options;
+  const problems = buildProblems(employees, sideTasks, shiftExceptions, forcedAssignments, options);
+  const hard = getHardRuleIds(rules);
+  const culprits: GreenRuleId[] = [];
+
+  const step = (i: number): Promise<string[]> => {
+    if (i === hard.length) {
+      return Promise.resolve(culprits.length > 0
+        ? culprits.map(id => `Dropping "${describeGreenRule(id, rules, stations)}" alone would make the day feasible.`)
+        : ['The rules only conflict in combination; no single rule explains it.']);
+    }
+    const id = hard[i];
+    if (search(problems, employees, stations, options, { ...rules, [id]: { ...rules[id], enabled: false } }, seed, RELAXED_NODE_LIMIT).status === 'solved') {
+      culprits.push(id);
+    }
+    return nextTick().then(() => step(i + 1));
+  };
+
+  return nextTick().then(() => step(0));
+};
+
+/**
+ * Green schedule with the hard rules guaranteed. Same inputs as generateGreenSchedule;
+ * when no such schedule exists the greedy result is returned with the explanation on top.
+ */
+export const solveGreenSchedule = (
+  employees: string[],
+  sideTasks: SideTaskRule[],
+  shiftExceptions: ShiftException[],
+  forcedAssignments: ForcedAssignment[] = [],
+  greenEmployeeNames: Record<string, string> = {},
+  options: GreenScheduleOptions = {}
+): GeneratedGreenSchedule => {
+  const { stations = DEFAULT_GREEN_STATIONS, seed = randomSeed(), rules = DEFAULT_GREEN_RULES } = options;
+  const problems = buildProblems(employees, sideTasks, shiftExceptions, forcedAssignments, options);
+  const result = search(problems, employees, stations, options, rules, seed, NODE_LIMIT);
+
+  if (result.status === 'solved') {
+    const schedule = generateGreenSchedule(employees, sideTasks, shiftExceptions, [...forcedAssignments, ...result.placements], greenEmployeeNames, { ...options, seed });
+    const report: GreenSolverReport = { status: 'solved', explanation: [], nodes: result.nodes };
+    // The solver's placements reach the generator as locks; say who really placed them
+    const explanations = { ...schedule.explanations };
+    result.placements.forEach(p => {
+      const key = `${p.rotationId}:${p.employeeId}`;
+      if (explanations[key]) explanations[key] = { ...explanations[key], reason: 'solver' };
+    });
+    return { ...schedule, solver: report, explanations };
+  }
+
+  const explanation = result.status === 'limit'
+    ? [`No answer after ${NODE_LIMIT} search steps. Try fewer locks or relaxing staffing.`, ...explain(problems, employees, stations, options, rules)]
+    : explain(problems, employees, stations, options, rules);
+
+  const fallback = generateGreenSchedule(employees, sideTasks, shiftExceptions, forcedAssignments, greenEmployeeNames, { ...options, seed });
+  const report: GreenSolverReport = { status: result.status, explanation, nodes: result.nodes };
+  return {
+    ...fallback,
+    notifications: [
+      {
+        id: 'solver-infeasible',
+        type: 'critical',
+        message: 'Exact solver: no schedule meets every hard rule. Showing the best-effort schedule instead.'
+      },
+      ...fallback.notifications
+    ],
+    solver: report
+  };
+};
@@ -0,0 +1,72 @@
+import { BlueChange, GreenChange, GreenRotation, SentHome, ShiftException, TimeBlock } from '../types';
+import { getMinutes } from './shifts';
+
+// --- Mid-day Rebalancing ---
+// Someone going home part way through the day ends their shift at that time. Both generators
+// then keep everything that already started (see FrozenBlocks / FrozenRotations) and only
+// plan the rest; the diffs below are what changed for everyone else.
+
+/**
+ * Ends a person's shift windows at `at`: windows starting later are dropped, the one under way
+ * is cut short. Someone who works the whole day gets a single window up to `at`.
+ */
+export const sendHome = (shiftExceptions: ShiftException[], empId: string, at: string): ShiftException[] => {
+  const atMins = getMinutes(at);
+  const own = shiftExceptions.filter(ex => ex.employeeId === empId);
+  const others = shiftExceptions.filter(ex => ex.employeeId !== empId);
+
+  const kept = own
+    .filter(ex => getMinutes(ex.startTime) < atMins)
+    .map(ex => getMinutes(ex.endTime) > atMins ? { ...ex, endTime: at } : ex);
+  // Not in yet (or no windows at all): nothing from now on
+  if (kept.length === 0) kept.push({ id: `home-${empId}`, employeeId: empId, startTime: '00:00', endTime: at });
+
+  return [...others, ...kept];
+};
+
+// The day's shift windows once everyone sent home has left; the saved windows stay untouched
+export const applySentHome = (shiftExceptions: ShiftException[], sentHome: SentHome[]): ShiftException[] =>
+  sentHome.reduce((shifts, s) => sendHome(shifts, s.employeeId, s.at), shiftExceptions);
+
+const blockKey = (b: TimeBlock) => `${b.employeeId}|${b.station}|${b.startTime.getTime()}`;
+
+// Blocks from `from` onwards that one schedule has and the other does not, per person
+export const diffBlueBlocks = (before: TimeBlock[], after: TimeBlock[], from: Date): BlueChange[] => {
+  const later = (blocks: TimeBlock[]) => blocks
+    .filter(b => b.startTime.getTime() >= from.getTime())
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  const oldBlocks = later(before);
+  const newBlocks = later(after);
+  const oldKeys = new Set(oldBlocks.map(blockKey));
+  const newKeys = new Set(newBlocks.map(blockKey));
+
+  const ids = Array.from(new Set([...oldBlocks, ...newBlocks].map(b => b.employeeId)));
+  return ids
+    .map(employeeId => ({
+      employeeId,
+      removed: oldBlocks.filter(b => b.employeeId === employeeId && !newKeys.has(blockKey(b))),
+      added: newBlocks.filter(b => b.employeeId === employeeId && !oldKeys.has(blockKey(b)))
+    }))
+    .filter(change => change.removed.length > 0 || change.added.length > 0);
+};
+
+const stationOf = (rotation: GreenRotation | undefined, empId: string): string | null =>
+  rotation ? Object.keys(rotation.assignments).find(st => rotation.assignments[st].includes(empId)) ?? null : null;
+
+// Everyone whose station differs between the two schedules, rotation by rotation
+export const diffGreenRotations = (before: GreenRotation[], after: GreenRotation[]): GreenChange[] => {
+  const changes: GreenChange[] = [];
+  after.forEach(rotation => {
+    const previous = before.find(r => r.id === rotation.id);
+    const ids = new Set([
+      ...Object.values(rotation.assignments).flat(),
+      ...(previous ? Object.values(previous.assignments).flat() : [])
+    ]);
+    ids.forEach(employeeId => {
+      const from = stationOf(previous, employeeId);
+      const to = stationOf(rotation, employeeId);
+      if (from !== to) changes.push({ rotationId: rotation.id, employeeId, from, to });
+    });
+  });
+  return changes;
+};
@@ -1,54 +1,464 @@
 import { addMinutes, format, parse, isBefore, isAfter, differenceInMinutes, startOfDay } from 'date-fns';
-import { StationType, GeneratedSchedule, TimeBlock, ScheduleConfig, CoverageIssue } from '../types';
+import { StationType, GeneratedSchedule, TimeBlock, ScheduleConfig, CoverageIssue, LunchConfig, CycleStep, ScheduleQuality, OffsetOptimization, PinnedBlock, StationLane, ShiftException, FrozenBlocks } from '../types';
+import { getShiftWindows, TIME_PATTERN } from './shifts';
 
-// Constants for duration rules
-const DURATION_SHOW = 30; // Show is still fixed at 30 logic-wise as per original requirement
+// Defaults for configs saved before these became configurable
+const DEFAULT_DURATION_SHOW = 30;
 
 // Buffer after show before Ocean starts
-const BUFFER_POST_SHOW = 5;
+const DEFAULT_BUFFER_POST_SHOW = 5;
 
 // Hard cutoff time for starting new tasks (17:00 / 5 PM)
-const CUTOFF_HOUR = 17;
+const DEFAULT_CUTOFF_TIME = "17:00";
+
+// Standard cycle: Show(30) + Buffer(5) -> Ocean(20) -> Floor -1(20)
+export const DEFAULT_CYCLE: CycleStep[] = [
+  { station: StationType.SHOW, duration: DEFAULT_DURATION_SHOW, bufferAfter: DEFAULT_BUFFER_POST_SHOW, color: 'blue' },
+  { station: StationType.OCEAN, duration: 20, bufferAfter: 0, color: 'teal' },
+  { station: StationType.FLOOR_MINUS_1, duration: 20, bufferAfter: 0, color: 'rose' }
+];
+
+/**
+ * Brings a stored config up to date. Configs saved before the cycle became data carry
+ * flat Show/Ocean/Floor durations instead; those are folded into an equivalent cycle.
+ */
+export const normalizeScheduleConfig = (raw: any, fallback: ScheduleConfig): ScheduleConfig => {
+  // numEmployees predates the employee directory; the roster now decides the headcount
+  const { durationShow, bufferPostShow, durationOcean, durationFloor, numEmployees, ...rest } = raw || {};
+  const config: ScheduleConfig = { ...fallback, ...rest };
+
+  if (!Array.isArray(raw?.cycle)) {
+    config.cycle = [
+      { ...DEFAULT_CYCLE[0], duration: durationShow ?? DEFAULT_CYCLE[0].duration, bufferAfter: bufferPostShow ?? DEFAULT_CYCLE[0].bufferAfter },
+      { ...DEFAULT_CYCLE[1], duration: durationOcean ?? DEFAULT_CYCLE[1].duration },
+      { ...DEFAULT_CYCLE[2], duration: durationFloor ?? DEFAULT_CYCLE[2].duration }
+    ];
+  }
+  return config;
+};
+
+// Minutes from the cycle start (the show start) to the start of each step
+export const getStepOffsets = (cycle: CycleStep[]): number[] => {
+  const offsets: number[] = [];
+  let offset = 0;
+  cycle.forEach(step => {
+    offsets.push(offset);
+    offset += step.duration + step.bufferAfter;
+  });
+  return offsets;
+};
+
+interface DayContext {
+  showStartTimes: Date[];
+  lastShow: Date;
+  cutoffTime: Date;
+  cycle: CycleStep[];
+  stepOffsets: number[];
+  canWork: (empId: string, station: string) => boolean; // Certification check
+}
+
+interface LunchWindow {
+  start: Date;
+  end: Date;
+  duration: number;
+}
+
+// A stretch of the day someone is in; a split shift has several
+interface WorkWindow {
+  start: Date;
+  end: Date;
+}
+
+interface EmployeePath {
+  blocks: TimeBlock[];
+  cycles: number; // Number of station cycles started (lunch excluded)
+  lunchPlaced: boolean;
+}
+
+// A block covers a required window when it is at the station for the whole window
+const coversWindow = (block: TimeBlock, station: string, reqStart: Date, reqEnd: Date) =>
+  block.station === station &&
+  !isAfter(block.startTime, reqStart) &&
+  !isBefore(block.endTime, reqEnd);
+
+// Whether a stretch of time falls entirely inside one of the windows
+const isOnShift = (windows: WorkWindow[], start: Date, end: Date) =>
+  windows.some(w => !isBefore(start, w.start) && !isAfter(end, w.end));
+
+/**
+ * Walks a single employee through the day: every cycle step in order (Show -> Buffer -> Ocean -> Floor -1
+ * by default), then the next free show. If `lunchCycle` is set, that cycle is skipped and replaced by a
+ * LUNCH block inside the window. Steps falling in a split shift's break are left out, keeping the rhythm.
+ */
+const buildEmployeePath = (
+  empId: string,
+  startShowIndex: number,
+  windows: WorkWindow[], // Earliest first, never empty
+  ctx: DayContext,
+  lunch: LunchWindow | null = null,
+  lunchCycle: number | null = null
+): EmployeePath => {
+  const { showStartTimes, lastShow, cutoffTime, cycle, stepOffsets, canWork } = ctx;
+  const shiftStart = windows[0].start;
+  const shiftEnd = windows[windows.length - 1].end;
+  const blocks: TimeBlock[] = [];
+  let cycles = 0;
+  let lunchPlaced = false;
+  let showIndex = startShowIndex;
+
+  // Fast-forward showIndex so the first Show starts AFTER or AT their arrival time
+  while (
+    showIndex < showStartTimes.length &&
+    isBefore(showStartTimes[showIndex], shiftStart)
+  ) {
+    showIndex++;
+  }
+
+  // We only process if the starting index is within valid show times
+  if (showIndex < 0 || showIndex >= showStartTimes.length) {
+    return { blocks, cycles, lunchPlaced };
+  }
+
+  let currentCycleStart = showStartTimes[showIndex];
+  let freeFrom = currentCycleStart; // When the employee last became free
+
+  // While the employee can still start a show before the end of the shift
+  while (!isAfter(currentCycleStart, lastShow)) {
+
+    // --- Lunch: skip this cycle ---
+    if (lunch && lunchCycle === cycles && !lunchPlaced) {
+      // Lunch starts as soon as they are free, but never before the window opens
+      const lunchStart = isAfter(lunch.start, freeFrom) ? lunch.start : freeFrom;
+      const lunchEnd = addMinutes(lunchStart, lunch.duration);
+
+      // The lunch must displace this cycle, fit the window, the shift and the cutoff
+      if (
+        isAfter(lunchStart, currentCycleStart) ||
+        isAfter(lunchEnd, lunch.end) ||
+        !isOnShift(windows, lunchStart, lunchEnd) ||
+        !isBefore(lunchStart, cutoffTime)
+      ) {
+        break;
+      }
+
+      blocks.push({
+        id: `${empId}-${lunchStart.toISOString()}-lunch`,
+        station: StationType.LUNCH,
+        startTime: lunchStart,
+        endTime: lunchEnd,
+        employeeId: empId
+      });
+      lunchPlaced = true;
+
+      const nextShowAfterLunch = showStartTimes.find(t => !isBefore(t, lunchEnd));
+      if (!nextShowAfterLunch) break;
+      currentCycleStart = nextShowAfterLunch;
+      freeFrom = lunchEnd;
+      continue;
+    }
+
+    // --- Station steps, in cycle order ---
+    let stopped = false;
+    for (let i = 0; i < cycle.length; i++) {
+      const step = cycle[i];
+      const stepStart = addMinutes(currentCycleStart, stepOffsets[i]);
+
+      // CHECK: Cutoff OR Personal Shift End
+      if (!isBefore(stepStart, cutoffTime)) { stopped = true; break; }
+      const stepEnd = addMinutes(stepStart, step.duration);
+      if (isAfter(stepEnd, shiftEnd)) { stopped = true; break; } // Stop if shift ends
+
+      if (i === 0) cycles++;
+      freeFrom = addMinutes(stepEnd, step.bufferAfter);
+
+      // Not certified, or out on a split shift's break: sit this step out but keep the cycle's rhythm
+      if (!canWork(empId, step.station) || !isOnShift(windows, stepStart, stepEnd)) continue;
+
+      blocks.push({
+        id: `${empId}-${currentCycleStart.toISOString()}-${i}`,
+        station: step.station,
+        startTime: stepStart,
+        endTime: stepEnd,
+        employeeId: empId
+      });
+    }
+    if (stopped) break;
+
+    // Find the next available show start time
+    // The employee is free after the last step (and its buffer).
+    // They need to catch a show starting >= that time.
+    const nextAvailableShow = showStartTimes.find(t => !isBefore(t, freeFrom));
+
+    if (!nextAvailableShow) break; // No more shows today
+
+    currentCycleStart = nextAvailableShow;
+  }
+
+  return { blocks, cycles, lunchPlaced };
+};
+
+/**
+ * Checks that every show, and each cycle step that follows it (Ocean, Floor -1, ...), has someone on it.
+ */
+const validateCoverage = (blocks: TimeBlock[], ctx: DayContext): CoverageIssue[] => {
+  const { showStartTimes, cutoffTime, cycle, stepOffsets } = ctx;
+  const issues: CoverageIssue[] = [];
+
+  const checkStation = ({ station, duration, requiresCertification }: CycleStep, reqStart: Date) => {
+    // We strictly check coverage only if the station requirement starts BEFORE the cutoff.
+    // With a 17:00 cutoff, a show at 16:50 (valid) is checked.
+    // A show that theoretically started at 17:10 (invalid) is skipped.
+    if (!isBefore(reqStart, cutoffTime)) return;
+
+    const reqEnd = addMinutes(reqStart, duration);
+    const hasStaff = blocks.some(b => coversWindow(b, station, reqStart, reqEnd));
+    if (!hasStaff) {
+      issues.push({
+        startTime: reqStart,
+        endTime: reqEnd,
+        station,
+        missing: true,
+        message: `Missing ${requiresCertification ? 'certified ' : ''}${station} staff at ${format(reqStart, 'HH:mm')}`
+      });
+    }
+  };
+
+  showStartTimes.forEach(t => {
+    cycle.forEach((step, i) => checkStation(step, addMinutes(t, stepOffsets[i])));
+  });
+
+  return issues;
+};
+
+const blocksOverlap = (a: TimeBlock, b: TimeBlock) =>
+  isBefore(a.startTime, b.endTime) && isAfter(a.endTime, b.startTime);
+
+/**
+ * Hands each pinned block to its employee. Whatever that employee was doing at the same
+ * time goes back to the previous owner if they are free, otherwise it is dropped and shows
+ * up as a coverage gap. Pins never displace a lunch break.
+ */
+const applyPins = (
+  blocks: TimeBlock[],
+  pinnedBlocks: PinnedBlock[],
+  employeeIds: string[],
+  canWork: DayContext['canWork'],
+  baseDate: Date
+): { blocks: TimeBlock[]; issues: CoverageIssue[] } => {
+  let result = blocks.map(b => ({ ...b }));
+  const issues: CoverageIssue[] = [];
+
+  // Pins for people who left the Blue roster are kept but have no effect
+  pinnedBlocks.filter(pin => employeeIds.includes(pin.employeeId)).forEach(pin => {
+    const matches = result.filter(b => b.station === pin.station && format(b.startTime, 'HH:mm') === pin.startTime);
+    const target = matches.find(b => b.employeeId === pin.employeeId) || matches[0];
+
+    if (!target) {
+      const when = parse(pin.startTime, 'HH:mm', baseDate);
+      issues.push({
+        startTime: when,
+        endTime: when,
+        station: pin.station,
+        missing: false,
+        message: `Pinned ${pin.station} at ${pin.startTime} for ${pin.employeeId} no longer exists`
+      });
+      return;
+    }
+
+    const previousOwner = target.employeeId;
+    if (previousOwner !== pin.employeeId && !canWork(pin.employeeId, pin.station)) {
+      issues.push({
+        startTime: target.startTime,
+        endTime: target.endTime,
+        station: pin.station,
+        missing: false,
+        message: `Pinned ${pin.station} at ${pin.startTime} ignored: ${pin.employeeId} is not certified for it`
+      });
+      return;
+    }
+
+    target.pinned = true;
+    if (previousOwner === pin.employeeId) return;
+
+    const clashes = result.filter(b => b !== target && b.employeeId === pin.employeeId && blocksOverlap(b, target));
+    if (clashes.some(b => b.station === StationType.LUNCH || b.pinned)) {
+      target.pinned = false;
+      issues.push({
+        startTime: target.startTime,
+        endTime: target.endTime,
+        station: pin.station,
+        missing: false,
+        message: `Pinned ${pin.station} at ${pin.startTime} clashes with ${pin.employeeId}'s lunch or another pin`
+      });
+      return;
+    }
+
+    target.employeeId = pin.employeeId;
+    clashes.forEach(clash => {
+      const ownerBusy = result.some(b => b !== target && b !== clash && b.employeeId === previousOwner && blocksOverlap(b, clash));
+      if (ownerBusy || !canWork(previousOwner, clash.station)) {
+        result = result.filter(b => b !== clash);
+      } else {
+        clash.employeeId = previousOwner;
+      }
+    });
+  });
+
+  return { blocks: result, issues };
+};
+
+// Fewer gaps first, then fewer uncovered minutes
+const scoreIssues = (issues: CoverageIssue[]): number =>
+  issues.reduce((acc, i) => acc + 1000 + differenceInMinutes(i.endTime, i.startTime), 0);
+
+// Whether a path works through the lunch window without a split shift's break that already is a lunch
+const needsLunch = (blocks: TimeBlock[], windows: WorkWindow[], lunch: LunchWindow): boolean => {
+  if (blocks.length === 0) return false;
+  const firstStart = blocks[0].startTime;
+  const lastEnd = blocks[blocks.length - 1].endTime;
+  if (!isBefore(firstStart, lunch.end) || !isAfter(lastEnd, lunch.start)) return false;
+  return !windows.slice(1).some((w, i) => {
+    const breakStart = isAfter(windows[i].end, lunch.start) ? windows[i].end : lunch.start;
+    const breakEnd = isBefore(w.start, lunch.end) ? w.start : lunch.end;
+    return differenceInMinutes(breakEnd, breakStart) >= lunch.duration;
+  });
+};
+
+// Every way to fit a lunch into the path starting at `showIndex`, one per skipped cycle
+const lunchOptions = (empId: string, showIndex: number, windows: WorkWindow[], ctx: DayContext, lunch: LunchWindow, cycles: number): EmployeePath[] =>
+  Array.from({ length: cycles + 1 }, (_, cycle) => buildEmployeePath(empId, showIndex, windows, ctx, lunch, cycle))
+    .filter(path => path.lunchPlaced);
+
+// Cost of changing someone's remaining day: only worth it when coverage clearly improves
+const REROUTE_COST = 500;
+
+interface RosterEntry {
+  empId: string;
+  showIndex: number;
+  windows: WorkWindow[];
+}
+
+/**
+ * Plans the rest of a day under way. Everyone keeps their planned blocks from `resumeAt` on
+ * while those still fit their shift. Then, one person at a time, anyone is moved to the
+ * later show that leaves the fewest gaps, if that beats staying put by REROUTE_COST.
+ * People whose plan no longer fits always move. Whoever moves and has not had lunch yet gets
+ * one as part of the move. Moved people are added to `rerouted`.
+ */
+const resumePaths = (
+  employees: RosterEntry[], // Windows already clipped to what is left of the day
+  planned: TimeBlock[],
+  frozenBlocks: TimeBlock[],
+  resumeAt: Date,
+  ctx: DayContext,
+  lunch: LunchWindow | null,
+  rerouted: Set<string>
+): EmployeePath[] => {
+  const paths: EmployeePath[] = employees.map(e => {
+    const kept = planned.filter(b => b.employeeId === e.empId && !isBefore(b.startTime, resumeAt));
+    if (kept.every(b => isOnShift(e.windows, b.startTime, b.endTime))) {
+      return { blocks: kept, cycles: 0, lunchPlaced: kept.some(b => b.station === StationType.LUNCH) };
+    }
+    rerouted.add(e.empId);
+    return { blocks: [], cycles: 0, lunchPlaced: false };
+  });
+  const mustMove = new Set(rerouted);
+
+  for (let pass = 0; pass < 2; pass++) {
+    let moved = false;
+    employees.forEach((e, idx) => {
+      if (e.windows.length === 0) return;
+      const otherBlocks = [...frozenBlocks, ...paths.filter((_, j) => j !== idx).flatMap(p => p.blocks)];
+      const cost = rerouted.has(e.empId) ? 0 : REROUTE_COST;
+
+      let best: { path: EmployeePath; showIndex: number; score: number } | null = mustMove.has(e.empId)
+        ? null
+        : { path: paths[idx], showIndex: e.showIndex, score: scoreIssues(validateCoverage([...otherBlocks, ...paths[idx].blocks], ctx)) };
+      const current = best;
+
+      const hadLunch = frozenBlocks.some(b => b.employeeId === e.empId && b.station === StationType.LUNCH);
+
+      ctx.showStartTimes.forEach((t, showIndex) => {
+        if (isBefore(t, e.windows[0].start)) return;
+        const plain = buildEmployeePath(e.empId, showIndex, e.windows, ctx);
+        const withLunch = lunch && !hadLunch && needsLunch(plain.blocks, e.windows, lunch)
+          ? lunchOptions(e.empId, showIndex, e.windows, ctx, lunch, plain.cycles)
+          : [];
+        (withLunch.length > 0 ? withLunch : [plain]).forEach(candidate => {
+          const score = scoreIssues(validateCoverage([...otherBlocks, ...candidate.blocks], ctx)) + cost;
+          if (!best || score < best.score) best = { path: candidate, showIndex, score };
+        });
+      });
+
+      mustMove.delete(e.empId);
+      if (best && best !== current) {
+        paths[idx] = best.path;
+        e.showIndex = best.showIndex;
+        rerouted.add(e.empId);
+        moved = true;
+      }
+    });
+    if (!moved) break;
+  }
+
+  return paths;
+};
+
+/**
+ * The show someone starts at: their offset, or a stagger by roster position, kept within the
+ * day's shows so a shortened day or a long roster still gives everyone a start.
+ */
+export const getStartShowIndex = (employeeOffsets: Record<string, number>, empId: string, rosterIndex: number, showCount: number): number =>
+  Math.max(0, Math.min(employeeOffsets[empId] ?? rosterIndex, showCount - 1));
 
 /**
  * Generates the full schedule based on config and employee starting offsets.
+ * With `frozen`, blocks already started stay as they are and only the rest of the day is planned.
  */
 export const generateSchedule = (
   config: ScheduleConfig,
+  employeeIds: string[], // Person IDs on the Blue roster, in roster order
   employeeOffsets: Record<string, number>, // employeeId -> index of show to start at
-  employeeShifts: Record<string, { start: string; end: string }> = {} // employeeId -> { start: "HH:mm", end: "HH:mm" }
+  shiftExceptions: ShiftException[] = [], // Shift windows per person; none means the whole day
+  lunchConfig?: LunchConfig,
+  pinnedBlocks: PinnedBlock[] = [],
+  certifications: Record<string, string[]> = {}, // employeeId -> certified station names
+  date: Date = new Date(), // Calendar day the schedule is for
+  frozen: FrozenBlocks | null = null
 ): GeneratedSchedule => {
-  const { frequency, firstShowTime, lastShowTime, numEmployees, durationOcean, durationFloor } = config;
-  
+  const {
+    frequency, firstShowTime, lastShowTime,
+    cycle = DEFAULT_CYCLE,
+    cutoffTime: cutoffTimeString = DEFAULT_CUTOFF_TIME
+  } = config;
+
   // Calculate dynamic offsets based on user config
-  // Cycle: Show(30) + Buffer(5) -> Ocean(durationOcean) -> Floor(durationFloor)
-  const offsetOceanStart = DURATION_SHOW + BUFFER_POST_SHOW; 
-  const offsetFloorStart = offsetOceanStart + durationOcean;
+  // Each step starts after the previous step's duration plus its buffer
+  const stepOffsets = getStepOffsets(cycle);
 
   // 1. Generate all Show Start Times (The Grid)
-  const baseDate = startOfDay(new Date());
-  
-  // Define the absolute cutoff time (17:00 today)
-  const cutoffTime = addMinutes(baseDate, CUTOFF_HOUR * 60);
+  const baseDate = startOfDay(date);
 
   // Safety check: parse dates and handle invalid inputs (while user is typing in text fields)
-  let start: Date, end: Date;
+  let start: Date, end: Date, cutoffTime: Date;
   try {
     start = parse(firstShowTime, 'HH:mm', baseDate);
     end = parse(lastShowTime, 'HH:mm', baseDate);
-    
-    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    // Define the absolute cutoff time (today)
+    cutoffTime = parse(cutoffTimeString, 'HH:mm', baseDate);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || isNaN(cutoffTime.getTime())) {
       return { blocks: [], issues: [], showStartTimes: [] };
     }
   } catch (e) {
     return { blocks: [], issues: [], showStartTimes: [] };
   }
-  
+
   const showStartTimes: Date[] = [];
   let currentShow = start;
-  
+
   // Guard against infinite loops or bad inputs
-  if (differenceInMinutes(end, start) <= 0 || frequency <= 0) {
+  if (differenceInMinutes(end, start) <= 0 || frequency <= 0 || cycle.length === 0 || cycle.some(step => step.duration <= 0)) {
     return { blocks: [], issues: [], showStartTimes: [] };
   }
 
@@ -57,165 +467,278 @@ export const generateSchedule = (
     currentShow = addMinutes(currentShow, frequency);
   }
 
-  const allBlocks: TimeBlock[] = [];
+  const ctx: DayContext = {
+    showStartTimes,
+    lastShow: end,
+    cutoffTime,
+    cycle,
+    stepOffsets,
+    canWork: (empId, station) =>
+      !cycle.find(step => step.station === station)?.requiresCertification ||
+      (certifications[empId] || []).includes(station)
+  };
+
+  // A restricted station nobody on the roster may work stays empty all day
+  const certificationIssues: CoverageIssue[] = cycle
+    .filter((step, i) => step.requiresCertification && cycle.findIndex(s => s.station === step.station) === i)
+    .filter(step => !employeeIds.some(id => ctx.canWork(id, step.station)))
+    .map(step => ({
+      startTime: start,
+      endTime: cutoffTime,
+      station: step.station,
+      missing: true,
+      message: `Nobody on the Blue roster is certified for ${step.station}`
+    }));
+
+  // Lunch window (ignored while the user is still typing a valid time)
+  let lunch: LunchWindow | null = null;
+  if (lunchConfig && lunchConfig.duration > 0 && lunchConfig.windowStart.length === 5 && lunchConfig.windowEnd.length === 5) {
+    const lunchStart = parse(lunchConfig.windowStart, 'HH:mm', baseDate);
+    const lunchEnd = parse(lunchConfig.windowEnd, 'HH:mm', baseDate);
+    if (!isNaN(lunchStart.getTime()) && !isNaN(lunchEnd.getTime()) && differenceInMinutes(lunchEnd, lunchStart) >= lunchConfig.duration) {
+      lunch = { start: lunchStart, end: lunchEnd, duration: lunchConfig.duration };
+    }
+  }
 
   // 2. Build schedule for each employee
-  for (let i = 1; i <= numEmployees; i++) {
-    const empId = `A${i}`;
-    let showIndex = employeeOffsets[empId] ?? (i - 1); // Default staggered start
+  const employees: RosterEntry[] = [];
+  employeeIds.forEach((empId, i) => {
+    const showIndex = getStartShowIndex(employeeOffsets, empId, i, showStartTimes.length);
 
     // --- Shift Constraints Logic ---
-    const shift = employeeShifts[empId];
-    // Default to Start of Day / End of Day if not specified
-    const shiftStart = shift?.start && shift.start.length === 5 
-      ? parse(shift.start, 'HH:mm', baseDate) 
-      : startOfDay(baseDate);
-    const shiftEnd = shift?.end && shift.end.length === 5
-      ? parse(shift.end, 'HH:mm', baseDate) 
-      : addMinutes(startOfDay(baseDate), 24 * 60);
-
-    // Fast-forward showIndex so the first Show starts AFTER or AT their arrival time
-    while (
-      showIndex < showStartTimes.length && 
-      isBefore(showStartTimes[showIndex], shiftStart)
-    ) {
-      showIndex++;
-    }
+    // Windows still being typed are ignored; without any, the whole day is theirs
+    const windows = getShiftWindows(shiftExceptions, empId)
+      .filter(w => !isNaN(w.start) && !isNaN(w.end) && w.end > w.start)
+      .map(w => ({ start: addMinutes(baseDate, w.start), end: addMinutes(baseDate, w.end) }));
+    if (windows.length === 0) windows.push({ start: baseDate, end: addMinutes(baseDate, 24 * 60) });
 
-    // Calculate path for the entire day
-    // We only process if the starting index is within valid show times
-    if (showIndex >= 0 && showIndex < showStartTimes.length) {
-      let currentCycleStart = showStartTimes[showIndex];
-      
-      // While the employee can still start a show before the end of the shift
-      while (!isAfter(currentCycleStart, end)) {
-        
-        // --- Block 1: Show ---
-        const showStart = currentCycleStart;
-        
-        // CHECK: Cutoff (17:00) OR Personal Shift End
-        if (!isBefore(showStart, cutoffTime)) break;
-        const showEnd = addMinutes(showStart, DURATION_SHOW);
-        if (isAfter(showEnd, shiftEnd)) break; // Stop if shift ends
-
-        allBlocks.push({
-          id: `${empId}-${showStart.toISOString()}-show`,
-          station: StationType.SHOW,
-          startTime: showStart,
-          endTime: showEnd,
-          employeeId: empId
-        });
+    employees.push({ empId, showIndex, windows });
+  });
 
-        // --- Block 2: Ocean ---
-        const oceanStart = addMinutes(currentCycleStart, offsetOceanStart);
-        // CHECK: Cutoff OR Personal Shift End
-        if (!isBefore(oceanStart, cutoffTime)) break;
-        const oceanEnd = addMinutes(oceanStart, durationOcean);
-        if (isAfter(oceanEnd, shiftEnd)) break; // Stop if shift ends
-
-        allBlocks.push({
-          id: `${empId}-${showStart.toISOString()}-ocean`,
-          station: StationType.OCEAN,
-          startTime: oceanStart,
-          endTime: oceanEnd,
-          employeeId: empId
-        });
+  // A day under way: what started before the freeze stands, the rest is planned around it
+  const resumeAt = frozen && TIME_PATTERN.test(frozen.before) ? parse(frozen.before, 'HH:mm', baseDate) : null;
+  const frozenBlocks = resumeAt
+    ? frozen!.blocks.filter(b => employeeIds.includes(b.employeeId) && isBefore(b.startTime, resumeAt))
+    : [];
+  const rerouted = new Set<string>();
 
-        // --- Block 3: Floor -1 ---
-        const floorStart = addMinutes(currentCycleStart, offsetFloorStart);
-        // CHECK: Cutoff OR Personal Shift End
-        if (!isBefore(floorStart, cutoffTime)) break;
-        const floorEnd = addMinutes(floorStart, durationFloor);
-        if (isAfter(floorEnd, shiftEnd)) break; // Stop if shift ends
-
-        allBlocks.push({
-          id: `${empId}-${showStart.toISOString()}-floor`,
-          station: StationType.FLOOR_MINUS_1,
-          startTime: floorStart,
-          endTime: floorEnd,
-          employeeId: empId
-        });
+  let paths: EmployeePath[];
+  if (resumeAt) {
+    employees.forEach(e => {
+      // Nobody starts anything new before they are done with what they were doing
+      const from = frozenBlocks
+        .filter(b => b.employeeId === e.empId)
+        .reduce((acc, b) => isAfter(b.endTime, acc) ? b.endTime : acc, resumeAt);
+      e.windows = e.windows
+        .filter(w => isAfter(w.end, from))
+        .map(w => ({ start: isAfter(from, w.start) ? from : w.start, end: w.end }));
+    });
+    paths = resumePaths(employees, frozen!.blocks, frozenBlocks, resumeAt, ctx, lunch, rerouted);
+  } else {
+    // Calculate path for the entire day (no lunch yet)
+    paths = employees.map(e => buildEmployeePath(e.empId, e.showIndex, e.windows, ctx));
+  }
+  const lunchIssues: CoverageIssue[] = [];
 
-        // Find the next available show start time
-        // The employee is free after floorEnd.
-        // They need to catch a show starting >= floorEnd.
-        const nextAvailableShow = showStartTimes.find(t => !isBefore(t, floorEnd));
-        
-        if (!nextAvailableShow) break; // No more shows today
-        
-        currentCycleStart = nextAvailableShow;
+  // 3. Lunch: one employee at a time, skip the cycle that hurts coverage least
+  if (lunch) {
+    employees.forEach((e, idx) => {
+      const baseline = paths[idx];
+      // Only people actually working through the window need a lunch
+      if (!needsLunch(baseline.blocks, e.windows, lunch!)) return;
+
+      let best: { path: EmployeePath; score: number } | null = null;
+      if (resumeAt) {
+        // A day under way places lunches with the move (resumePaths); only report the misses
+        if (!rerouted.has(e.empId) || baseline.lunchPlaced) return;
+        if (frozenBlocks.some(b => b.employeeId === e.empId && b.station === StationType.LUNCH)) return;
+      } else {
+        const otherBlocks = paths.filter((_, j) => j !== idx).flatMap(p => p.blocks);
+        for (const candidate of lunchOptions(e.empId, e.showIndex, e.windows, ctx, lunch!, baseline.cycles)) {
+          const score = scoreIssues(validateCoverage([...otherBlocks, ...candidate.blocks], ctx));
+          if (!best || score < best.score) {
+            best = { path: candidate, score };
+          }
+        }
       }
-    }
+
+      if (best) {
+        paths[idx] = best.path;
+      } else {
+        lunchIssues.push({
+          startTime: lunch!.start,
+          endTime: lunch!.end,
+          station: StationType.LUNCH,
+          missing: true,
+          message: `No lunch slot for ${e.empId} between ${format(lunch!.start, 'HH:mm')} and ${format(lunch!.end, 'HH:mm')}`
+        });
+      }
+    });
   }
 
-  // 3. Validation: Check Coverage
-  const issues: CoverageIssue[] = [];
-  
-  showStartTimes.forEach(t => {
-    // We strictly check coverage only if the station requirement starts BEFORE 17:00.
-    // If a show starts at 16:50 (valid), we check coverage.
-    // If a show theoretically started at 17:10 (invalid), we skip checking it.
-    
-    // Check Show Coverage
-    const showReqStart = t;
-    if (isBefore(showReqStart, cutoffTime)) {
-        const showReqEnd = addMinutes(t, DURATION_SHOW);
-        const hasShowStaff = allBlocks.some(b => 
-          b.station === StationType.SHOW && 
-          !isAfter(b.startTime, showReqStart) && 
-          !isBefore(b.endTime, showReqEnd)
-        );
-        if (!hasShowStaff) {
-          issues.push({
-            startTime: showReqStart,
-            endTime: showReqEnd,
-            station: StationType.SHOW,
-            missing: true,
-            message: `Missing Show staff at ${format(showReqStart, 'HH:mm')}`
-          });
-        }
-    }
+  // 4. Manual overrides win over the generated paths (but not over what already happened)
+  const livePins = resumeAt ? pinnedBlocks.filter(pin => pin.startTime >= frozen!.before) : pinnedBlocks;
+  const { blocks: planned, issues: pinIssues } = applyPins(paths.flatMap(p => p.blocks), livePins, employeeIds, ctx.canWork, baseDate);
+  const allBlocks = [...frozenBlocks, ...planned];
 
-    // Check Ocean Coverage
-    const oceanReqStart = addMinutes(t, offsetOceanStart);
-    if (isBefore(oceanReqStart, cutoffTime)) {
-        const oceanReqEnd = addMinutes(oceanReqStart, durationOcean);
-        const hasOceanStaff = allBlocks.some(b => 
-          b.station === StationType.OCEAN && 
-          !isAfter(b.startTime, oceanReqStart) && 
-          !isBefore(b.endTime, oceanReqEnd)
-        );
-        if (!hasOceanStaff) {
-          issues.push({
-            startTime: oceanReqStart,
-            endTime: oceanReqEnd,
-            station: StationType.OCEAN,
-            missing: true,
-            message: `Missing Ocean staff at ${format(oceanReqStart, 'HH:mm')}`
-          });
-        }
+  // 5. Validation: Check Coverage
+  const issues = [...certificationIssues, ...validateCoverage(allBlocks, ctx), ...lunchIssues, ...pinIssues]
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+  return { blocks: allBlocks, issues, showStartTimes };
+};
+
+// --- Offset Optimizer ---
+
+const defaultOffsets = (employeeIds: string[]): Record<string, number> => {
+  const offsets: Record<string, number> = {};
+  employeeIds.forEach((id, i) => { offsets[id] = i; });
+  return offsets;
+};
+
+/**
+ * Summarizes how good a generated schedule is: gaps, uncovered minutes and how
+ * unevenly the station time is spread over the team.
+ */
+export const measureSchedule = (schedule: GeneratedSchedule, employeeIds: string[]): ScheduleQuality => {
+  const worked: number[] = employeeIds.map(id =>
+    schedule.blocks
+      .filter(b => b.employeeId === id && b.station !== StationType.LUNCH)
+      .reduce((acc, b) => acc + differenceInMinutes(b.endTime, b.startTime), 0)
+  );
+
+  return {
+    issueCount: schedule.issues.length,
+    missingMinutes: schedule.issues.reduce((acc, i) => acc + differenceInMinutes(i.endTime, i.startTime), 0),
+    workloadSpread: worked.length > 0 ? Math.max(...worked) - Math.min(...worked) : 0
+  };
+};
+
+// Gaps dominate, then uncovered minutes, then workload balance
+const qualityScore = (q: ScheduleQuality): number =>
+  q.issueCount * 1_000_000 + q.missingMinutes * 1000 + q.workloadSpread;
+
+// Trials per employee and pass that get the full evaluation after the quick screen
+const SHORTLIST_SIZE = 3;
+
+// Lets the page repaint between steps of a long search
+export const nextTick = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Searches start offsets for the current config and shifts. Starts from the better of the
+ * given offsets and the default stagger, then moves one employee at a time to whichever
+ * show index improves the score most, until a full pass changes nothing.
+ * Every show index is first screened on the paths alone (no lunch placement, no pins);
+ * only the best few get the full schedule. Yields before starting and after each employee.
+ * With `frozen` (a day under way) the live schedule is only measured: offsets no longer apply.
+ */
+export const optimizeOffsets = (
+  config: ScheduleConfig,
+  employeeIds: string[],
+  employeeOffsets: Record<string, number>,
+  shiftExceptions: ShiftException[] = [],
+  lunchConfig?: LunchConfig,
+  pinnedBlocks: PinnedBlock[] = [],
+  certifications: Record<string, string[]> = {},
+  date: Date = new Date(),
+  frozen: FrozenBlocks | null = null,
+  maxPasses: number = 5
+): Promise<OffsetOptimization> => nextTick().then(() => {
+  const evaluate = (offsets: Record<string, number>) => {
+    const schedule = generateSchedule(config, employeeIds, offsets, shiftExceptions, lunchConfig, pinnedBlocks, certifications, date, frozen);
+    const quality = measureSchedule(schedule, employeeIds);
+    return { quality, score: qualityScore(quality), showCount: schedule.showStartTimes.length };
+  };
+  const screen = (offsets: Record<string, number>) =>
+    qualityScore(measureSchedule(generateSchedule(config, employeeIds, offsets, shiftExceptions, undefined, [], certifications, date, frozen), employeeIds));
+
+  const current = { ...defaultOffsets(employeeIds), ...employeeOffsets };
+  const before = evaluate(current);
+
+  // A day under way resumes from the blocks already planned, so offsets no longer move anyone
+  if (frozen) {
+    return { offsets: current, before: before.quality, after: before.quality };
+  }
+
+  const stagger = defaultOffsets(employeeIds);
+  const staggerResult = evaluate(stagger);
+
+  let bestOffsets = staggerResult.score < before.score ? stagger : current;
+  let best = staggerResult.score < before.score ? staggerResult : before;
+
+  // Nothing to search while the config is invalid
+  if (before.showCount === 0) {
+    return { offsets: current, before: before.quality, after: before.quality };
+  }
+
+  const step = (pass: number, i: number, improved: boolean): Promise<OffsetOptimization> => {
+    if (i === employeeIds.length) {
+      if (!improved || pass + 1 >= maxPasses) {
+        return Promise.resolve({ offsets: bestOffsets, before: before.quality, after: best.quality });
+      }
+      return step(pass + 1, 0, false);
     }
 
-    // Check Floor Coverage
-    const floorReqStart = addMinutes(t, offsetFloorStart);
-    if (isBefore(floorReqStart, cutoffTime)) {
-        const floorReqEnd = addMinutes(floorReqStart, durationFloor);
-        const hasFloorStaff = allBlocks.some(b => 
-          b.station === StationType.FLOOR_MINUS_1 && 
-          !isAfter(b.startTime, floorReqStart) && 
-          !isBefore(b.endTime, floorReqEnd)
-        );
-        if (!hasFloorStaff) {
-          issues.push({
-            startTime: floorReqStart,
-            endTime: floorReqEnd,
-            station: StationType.FLOOR_MINUS_1,
-            missing: true,
-            message: `Missing Floor -1 staff at ${format(floorReqStart, 'HH:mm')}`
-          });
-        }
+    const empId = employeeIds[i];
+    const shortlist = Array.from({ length: before.showCount }, (_, showIndex) => showIndex)
+      .filter(showIndex => showIndex !== bestOffsets[empId])
+      .map(showIndex => ({ showIndex, quick: screen({ ...bestOffsets, [empId]: showIndex }) }))
+      .sort((a, b) => a.quick - b.quick)
+      .slice(0, SHORTLIST_SIZE);
+
+    let moved = false;
+    shortlist.forEach(({ showIndex }) => {
+      const trial = { ...bestOffsets, [empId]: showIndex };
+      const result = evaluate(trial);
+      if (result.score < best.score) {
+        best = result;
+        bestOffsets = trial;
+        moved = true;
+      }
+    });
+
+    return nextTick().then(() => step(pass, i + 1, improved || moved));
+  };
+
+  return step(0, 0, false);
+});
+
+// --- Station Coverage ---
+
+/**
+ * Lays a generated schedule out per station: one window per show and cycle step (the same
+ * windows validateCoverage checks), each listing the employees covering it.
+ */
+export const getStationCoverage = (schedule: GeneratedSchedule, config: ScheduleConfig): StationLane[] => {
+  const { cycle = DEFAULT_CYCLE, cutoffTime: cutoffTimeString = DEFAULT_CUTOFF_TIME } = config;
+  const { blocks, showStartTimes } = schedule;
+  if (showStartTimes.length === 0) return [];
+
+  const cutoffTime = parse(cutoffTimeString, 'HH:mm', startOfDay(showStartTimes[0]));
+  const stepOffsets = getStepOffsets(cycle);
+  const lanes: StationLane[] = [];
+
+  cycle.forEach((step, i) => {
+    // Steps sharing a station name share a lane
+    let lane = lanes.find(l => l.station === step.station);
+    if (!lane) {
+      lane = { station: step.station, color: step.color, windows: [] };
+      lanes.push(lane);
     }
+
+    showStartTimes.forEach(t => {
+      const reqStart = addMinutes(t, stepOffsets[i]);
+      if (!isBefore(reqStart, cutoffTime)) return;
+      const reqEnd = addMinutes(reqStart, step.duration);
+
+      lane!.windows.push({
+        startTime: reqStart,
+        endTime: reqEnd,
+        employeeIds: blocks.filter(b => coversWindow(b, step.station, reqStart, reqEnd)).map(b => b.employeeId).sort()
+      });
+    });
   });
 
-  return { blocks: allBlocks, issues, showStartTimes };
-};
\ No newline at end of file
+  lanes.forEach(lane => lane.windows.sort((a, b) => a.startTime.getTime() - b.startTime.getTime()));
+  return lanes;
+};
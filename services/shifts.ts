@@ -0,0 +1,108 @@
+import { ShiftException } from '../types';
+
+// --- Shift Windows ---
+// One shift model for everyone, keyed by person so it follows them between teams.
+// Someone with no windows works the whole day. Each window is a stretch they are in;
+// several windows make a split shift (e.g. out for a school pickup and back).
+
+// Helper to convert HH:mm to minutes from midnight
+export const getMinutes = (time: string): number => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+// Helper to convert minutes from midnight back to HH:mm
+export const toTimeString = (mins: number): string => {
+  const h = Math.floor(mins / 60);
+  const m = mins % 60;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+};
+
+export const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export interface MinuteRange {
+  start: number;
+  end: number;
+}
+
+// A person's windows in minutes, earliest first; empty when they work the whole day
+export const getShiftWindows = (shiftExceptions: ShiftException[], empId: string): MinuteRange[] =>
+  shiftExceptions
+    .filter(e => e.employeeId === empId)
+    .map(e => ({ start: getMinutes(e.startTime), end: getMinutes(e.endTime) }))
+    .sort((a, b) => a.start - b.start);
+
+// Parts of the period the person is out, earliest first
+export const getMissedRanges = (shiftExceptions: ShiftException[], empId: string, start: number, end: number): MinuteRange[] => {
+  const windows = getShiftWindows(shiftExceptions, empId);
+  if (windows.length === 0) return [];
+
+  const missed: MinuteRange[] = [];
+  let cursor = start;
+  windows.forEach(w => {
+    if (w.end <= cursor || w.start >= end) return;
+    if (w.start > cursor) missed.push({ start: cursor, end: w.start });
+    cursor = Math.max(cursor, w.end);
+  });
+  if (cursor < end) missed.push({ start: cursor, end });
+  return missed;
+};
+
+// e.g. "45 min (12:00-12:30, 14:45-15:00)"
+export const formatMissed = (missed: MinuteRange[]): string => {
+  const minutes = missed.reduce((acc, r) => acc + r.end - r.start, 0);
+  return `${minutes} min (${missed.map(r => `${toTimeString(r.start)}-${toTimeString(r.end)}`).join(', ')})`;
+};
+
+/**
+ * Checks shift windows. Returns a list of human readable problems (empty = valid).
+ * Each window must be well-formed, and one person's windows must not overlap.
+ */
+export const validateShiftExceptions = (shiftExceptions: ShiftException[], getName: (id: string) => string = id => id): string[] => {
+  const errors: string[] = [];
+  const valid: ShiftException[] = [];
+
+  shiftExceptions.forEach(ex => {
+    if (!TIME_PATTERN.test(ex.startTime) || !TIME_PATTERN.test(ex.endTime)) {
+      errors.push(`${getName(ex.employeeId)}'s shift window needs times in HH:mm format.`);
+    } else if (getMinutes(ex.endTime) <= getMinutes(ex.startTime)) {
+      errors.push(`${getName(ex.employeeId)}'s shift window ${ex.startTime}-${ex.endTime} must end after it starts.`);
+    } else {
+      valid.push(ex);
+    }
+  });
+
+  Array.from(new Set(valid.map(ex => ex.employeeId))).forEach(empId => {
+    const windows = valid
+      .filter(ex => ex.employeeId === empId)
+      .sort((a, b) => getMinutes(a.startTime) - getMinutes(b.startTime));
+    windows.slice(1).forEach((ex, i) => {
+      const prev = windows[i];
+      if (getMinutes(ex.startTime) < getMinutes(prev.endTime)) {
+        errors.push(`${getName(empId)}'s shift windows ${prev.startTime}-${prev.endTime} and ${ex.startTime}-${ex.endTime} overlap.`);
+      }
+    });
+  });
+
+  return errors;
+};
+
+/**
+ * Folds the Blue team's old arrive/leave times into the shared windows. A missing arrival
+ * means from the start of the day, a missing departure until its end. People who already
+ * have windows keep them.
+ */
+export const mergeLegacyShifts = (
+  shiftExceptions: ShiftException[] = [],
+  employeeShifts: Record<string, { start?: string; end?: string }> = {}
+): ShiftException[] => {
+  const merged = [...shiftExceptions];
+  Object.entries(employeeShifts).forEach(([employeeId, shift]) => {
+    const start = shift?.start && TIME_PATTERN.test(shift.start) ? shift.start : null;
+    const end = shift?.end && TIME_PATTERN.test(shift.end) ? shift.end : null;
+    if (!start && !end) return;
+    if (merged.some(ex => ex.employeeId === employeeId)) return;
+    merged.push({ id: `shift-${employeeId}`, employeeId, startTime: start || '00:00', endTime: end || '23:59' });
+  });
+  return merged;
+};
@@ -0,0 +1,92 @@
+import { addDays, format, parse, startOfWeek } from 'date-fns';
+import { Absence, DaySchedule, GeneratedGreenSchedule, Person, PresetData, StationTally, TeamType } from '../types';
+import { generateSchedule } from './scheduler';
+import { buildLedger } from './fairness';
+import { solveGreenSchedule } from './greenSolver';
+import { generateGreenSchedule, validateRotations, DEFAULT_ROTATIONS_META, DEFAULT_GREEN_STATIONS } from './greenScheduler';
+import { validateShiftExceptions } from './shifts';
+import { filterAvailable } from './availability';
+
+// --- Calendar Helpers ---
+
+export const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+export const toDateKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+export const fromDateKey = (key: string): Date => parse(key, 'yyyy-MM-dd', new Date());
+
+// Weeks run Monday to Sunday, matching the weekday presets
+export const getWeekDates = (date: Date): Date[] => {
+  const monday = startOfWeek(date, { weekStartsOn: 1 });
+  return Array.from({ length: 7 }, (_, i) => addDays(monday, i));
+};
+
+// --- Day Generation ---
+
+export interface DayInput {
+  date: Date;
+  label: string;
+  data: PresetData; // Complete preset: migrated, with defaults filled in
+}
+
+/**
+ * Runs both generators for one calendar day. Rosters come from the preset's teams,
+ * in directory order, less anyone away that day; certifications always come from the directory.
+ */
+export const generateDay = (input: DayInput, people: Person[], priorCounts: StationTally = {}, absences: Absence[] = []): DaySchedule => {
+  const { date, label, data } = input;
+  const rosterFor = (team: TeamType) => people.filter(p => data.teams?.[p.id] === team).map(p => p.id);
+  const listedBlue = rosterFor(TeamType.BLUE);
+  const listedGreen = rosterFor(TeamType.GREEN);
+  const blueRoster = filterAvailable(listedBlue, absences, toDateKey(date));
+  const greenRoster = filterAvailable(listedGreen, absences, toDateKey(date));
+  const names = Object.fromEntries(people.map(p => [p.id, p.name]));
+  const certifications = Object.fromEntries(people.map(p => [p.id, p.certifications || []]));
+
+  const rotations = data.rotations ?? DEFAULT_ROTATIONS_META;
+  const stations = data.stations ?? DEFAULT_GREEN_STATIONS;
+  const greenErrors = [...validateRotations(rotations), ...validateShiftExceptions(data.shiftExceptions.filter(ex => greenRoster.includes(ex.employeeId)), id => names[id] || id)];
+  const generateGreen = data.greenSolver === 'exact' ? solveGreenSchedule : generateGreenSchedule;
+
+  const blue = generateSchedule(
+    data.config, blueRoster, data.employeeOffsets ?? {}, data.shiftExceptions,
+    data.lunchConfig, data.pinnedBlocks ?? [], certifications, date
+  );
+
+  // A broken timetable or overlapping shift windows cannot be scheduled; report it instead
+  const green: GeneratedGreenSchedule = greenErrors.length > 0
+    ? {
+        rotations: [],
+        notifications: greenErrors.map((message, i) => ({ id: `rotation-error-${i}`, type: 'critical', message }))
+      }
+    : generateGreen(greenRoster, data.sideTasks, data.shiftExceptions, data.forcedAssignments, names, {
+        rotations,
+        stations,
+        lunchConfig: data.greenLunchConfig,
+        certifications,
+        priorCounts,
+        seed: data.greenSeed,
+        rules: data.greenRules,
+        presence: data.greenPresence
+      });
+
+  return {
+    date: toDateKey(date), label, blueRoster, greenRoster,
+    blueOnLeave: listedBlue.filter(id => !blueRoster.includes(id)),
+    greenOnLeave: listedGreen.filter(id => !greenRoster.includes(id)),
+    config: data.config, stations, blue, green
+  };
+};
+
+/**
+ * Generates consecutive days in order. Green fairness carries over: each day is scored
+ * against the ledger of everything before it, `history` (e.g. published days) included.
+ */
+export const generateDays = (inputs: DayInput[], people: Person[], history: DaySchedule[] = [], absences: Absence[] = []): DaySchedule[] => {
+  const done = [...history];
+  return inputs.map(input => {
+    const day = generateDay(input, people, buildLedger(done, toDateKey(input.date)), absences);
+    done.push(day);
+    return day;
+  });
+};
@@ -2,7 +2,8 @@
 export enum StationType {
   SHOW = 'Show',
   OCEAN = 'Ocean',
-  FLOOR_MINUS_1 = 'Floor -1'
+  FLOOR_MINUS_1 = 'Floor -1',
+  LUNCH = 'Lunch'
 }
 
 export enum TeamType {
@@ -10,6 +11,8 @@ export enum TeamType {
   GREEN = 'Green'
 }
 
+// Built-in Green station IDs. The catalogue (GreenStationDef) can add more stations;
+// SIDE_TASK and OFF_SHIFT are pseudo-stations that always exist.
 export enum GreenStation {
   TICKET = 'Ticket',
   GREETER = 'Greeter',
@@ -24,21 +27,58 @@ export interface Employee {
   name: string;
 }
 
+// Entry in the employee directory; every assignment, shift and lock is keyed by Person.id
+export interface Person {
+  id: string; // Stable, e.g. "P7"
+  name: string;
+  team: TeamType | null; // Roster the person is on, null = not rostered
+  note: string; // Contact details or anything else worth knowing
+  certifications?: string[]; // CycleStep.station / GreenStationDef.id values this person may work
+}
+
+// --- Time Off ---
+
+export type AbsenceReason = 'vacation' | 'sick' | 'training' | 'other';
+
+// A stretch of days someone is away; they drop off both rosters for those days
+export interface Absence {
+  id: string;
+  employeeId: string; // Person.id
+  from: string; // yyyy-MM-dd, first day away
+  to: string; // yyyy-MM-dd, last day away (inclusive)
+  reason: AbsenceReason;
+}
+
+export interface CycleStep {
+  station: string; // Station name, e.g. StationType.SHOW or "Lobby"
+  duration: number; // minutes
+  bufferAfter: number; // minutes before the next step (or the next show) can start
+  color: string; // Palette key for cards and timeline
+  requiresCertification?: boolean; // Only people certified for this station may work it
+}
+
 export interface TimeBlock {
   id: string;
-  station: StationType;
+  station: string; // CycleStep.station or StationType.LUNCH
   startTime: Date;
   endTime: Date;
   employeeId: string;
+  pinned?: boolean; // Placed by a PinnedBlock rather than the generator
+}
+
+// Blue equivalent of ForcedAssignment: keeps a block with one employee across regenerations
+export interface PinnedBlock {
+  station: string; // CycleStep.station
+  startTime: string; // HH:mm
+  employeeId: string;
 }
 
 export interface ScheduleConfig {
   frequency: number; // minutes
   firstShowTime: string; // HH:mm
-  numEmployees: number;
   lastShowTime: string; // HH:mm
-  durationOcean: number; // minutes, configurable
-  durationFloor: number; // minutes, configurable
+  cycle: CycleStep[]; // Ordered station steps, the first one runs on the show grid
+  cutoffTime: string; // HH:mm, no new task starts at or after this
 }
 
 export interface LunchConfig {
@@ -55,7 +95,7 @@ export interface RotationTrack {
 export interface CoverageIssue {
   startTime: Date;
   endTime: Date;
-  station: StationType;
+  station: string;
   missing: boolean;
   message: string;
 }
@@ -66,20 +106,80 @@ export interface GeneratedSchedule {
   showStartTimes: Date[];
 }
 
+// One required window of a station (a show plus a cycle step offset) and who covers it
+export interface StationCoverageWindow {
+  startTime: Date;
+  endTime: Date;
+  employeeIds: string[]; // Empty = gap, two or more = double-staffed
+}
+
+export interface StationLane {
+  station: string; // CycleStep.station
+  color: string; // CycleStep.color
+  windows: StationCoverageWindow[];
+}
+
+export interface ScheduleQuality {
+  issueCount: number;
+  missingMinutes: number; // Total uncovered minutes across all issues
+  workloadSpread: number; // Minutes between the busiest and the least busy employee
+}
+
+export interface OffsetOptimization {
+  offsets: Record<string, number>; // employeeId -> index of show to start at
+  before: ScheduleQuality;
+  after: ScheduleQuality;
+}
+
 // Green Team Specifics
+export interface RotationMeta {
+  id: number; // 1-N, position in the timetable
+  start: string; // HH:mm
+  end: string; // HH:mm
+}
+
+export interface GreenStationDef {
+  id: string; // Key used in assignments, e.g. GreenStation.TICKET
+  name: string;
+  minStaff: number; // Per rotation; below this a critical notification fires
+  maxStaff: number | null; // Per rotation; null = unlimited, absorbs everyone left over
+  priority: number; // Lower fills first
+  countsForRepeat: boolean; // Subject to the "no repeat" / variety rules
+  color: string; // Palette key used by the rotation view
+  requiresCertification?: boolean; // Only people certified for this station may work it
+  lateArrivalOk?: boolean; // Takes people only partly present; defaults to true for unlimited stations
+}
+
+// Time someone must spend in a rotation to be on shift for it
+export interface PresenceThreshold {
+  unit: 'minutes' | 'percent'; // percent: share of the rotation's length
+  value: number;
+}
+
 export interface GreenRotation {
   id: number;
   timeRange: string;
-  assignments: Record<GreenStation, string[]>; // Station -> List of Employee IDs
+  assignments: Record<string, string[]>; // Station ID -> List of Employee IDs
+  lunchBreaks: GreenLunchBreak[]; // Breaks overlapping this rotation; one running into the next is listed in both
+}
+
+export interface GreenLunchBreak {
+  employeeId: string;
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+  rotationId: number;
+  station?: string; // Station ID left short by the break in this rotation, when someone stands in
+  coveredBy?: string; // Who stands in there meanwhile
 }
 
 export interface SideTaskRule {
   id: string;
-  rotationId: number; // 1-5
+  rotationId: number; // RotationMeta.id
   employeeId: string;
   note?: string;
 }
 
+// A window of the day someone works, shared by both teams; several make a split shift
 export interface ShiftException {
   id: string;
   employeeId: string;
@@ -96,23 +196,199 @@ export interface GreenNotification {
 
 export interface ForcedAssignment {
   rotationId: number;
-  station: GreenStation;
+  station: string; // GreenStationDef.id
   employeeId: string;
 }
 
+export interface GreenScheduleOptions {
+  rotations?: RotationMeta[];
+  stations?: GreenStationDef[];
+  lunchConfig?: LunchConfig;
+  certifications?: Record<string, string[]>; // Person.id -> certified station IDs
+  priorCounts?: StationTally; // Stations worked on earlier days, for fairness across days
+  seed?: number; // Same seed and inputs, same schedule; random when omitted
+  rules?: GreenRules; // Defaults to DEFAULT_GREEN_RULES
+  presence?: PresenceThreshold; // Defaults to DEFAULT_PRESENCE_THRESHOLD
+  frozen?: FrozenRotations; // A day under way: rotations already started are kept as they were
+}
+
+// --- Green Rules ---
+
+export type GreenRuleId = 'noConsecutiveRepeat' | 'minimumGap' | 'maxPerStation' | 'onceOnly' | 'escapeMuseum';
+
+export interface GreenRule {
+  enabled: boolean;
+  hard: boolean; // Hard: only broken when nobody else can take the seat (never in exact mode). Soft: adds `weight`
+  weight: number; // Penalty per breach; for the escape-Museum bonus, the score taken off instead
+}
+
+export interface GreenRules {
+  noConsecutiveRepeat: GreenRule;
+  minimumGap: GreenRule & { within: number }; // No return to a station within this many rotations
+  maxPerStation: GreenRule & { limit: number }; // Rotations per rotating station per day
+  onceOnly: GreenRule & { stations: string[] }; // Station IDs worked at most once per day
+  escapeMuseum: GreenRule; // Favour people coming off a non-rotating station for the active ones
+}
+
+// Person.id -> station ID -> number of rotations worked there
+export type StationTally = Record<string, Record<string, number>>;
+
+export interface GreenScheduleScore {
+  critical: number; // Critical notifications
+  warning: number; // Warning notifications
+  repeats: number; // Extra visits to a rotating station within the day
+  fairness: number; // Sum over rotating stations of (most - fewest) rotations per person
+  total: number; // Weighted sum used for ranking, lower is better
+}
+
+export interface GreenCandidate {
+  seed: number;
+  schedule: GeneratedGreenSchedule;
+  score: GreenScheduleScore;
+}
+
 export interface GeneratedGreenSchedule {
   rotations: GreenRotation[];
   notifications: GreenNotification[];
+  seed?: number; // Seed the shuffles were drawn from
+  solver?: GreenSolverReport; // Set when the exact solver produced (or failed to produce) the schedule
+  explanations?: Record<string, PlacementExplanation>; // "rotationId:employeeId" -> how they got there
+}
+
+// --- Green Explanations ---
+
+export interface ScoreTerm {
+  label: string; // Rule or heuristic
+  points: number; // Added to the candidate's score; lowest score wins
+}
+
+export interface CandidateScore {
+  employeeId: string;
+  terms: ScoreTerm[]; // Non-zero contributions only
+  total: number;
+  broken: GreenRuleId[]; // Hard rules this placement would break; fewest breaks wins first
+}
+
+// scored: picked by the scorer; locked: manual override; solver: placed by the exact solver
+export type PlacementReason = 'scored' | 'locked' | 'solver' | 'sideTask' | 'offShift' | 'uncertified' | 'partial' | 'frozen';
+
+export interface PlacementExplanation {
+  rotationId: number;
+  employeeId: string;
+  station: string;
+  reason: PlacementReason;
+  seat?: number; // Seat of the station being filled when picked
+  candidates: CandidateScore[]; // Everyone considered for that seat, best first; empty unless scored
+}
+
+// Greedy fills rotation by rotation; exact backtracks so the hard rules always hold
+export type GreenSolverMode = 'greedy' | 'exact';
+
+export interface GreenSolverReport {
+  status: 'solved' | 'infeasible' | 'limit'; // limit: gave up before finishing the search
+  explanation: string[]; // Why the hard rules cannot all be met; empty when solved
+  nodes: number; // Search steps taken
 }
 
 export interface PresetData {
   config: ScheduleConfig;
-  employeeNames: Record<string, string>;
-  employeeShifts: Record<string, { start: string, end: string }>;
-  numGreenEmployees: number;
-  greenEmployeeNames: Record<string, string>;
+  teams?: Record<string, TeamType>; // Person.id -> roster for this preset
+  employeeShifts?: Record<string, { start: string, end: string }>; // Blue arrive/leave times from before shiftExceptions were shared
   sideTasks: SideTaskRule[];
-  shiftExceptions: ShiftException[];
+  shiftExceptions: ShiftException[]; // Everyone's shift windows, whichever team they are on
   forcedAssignments: ForcedAssignment[];
   teamLocks: { blue: Record<string, boolean>; green: Record<string, boolean> };
+  lunchConfig?: LunchConfig; // Optional: presets saved before lunch scheduling existed
+  greenLunchConfig?: LunchConfig;
+  rotations?: RotationMeta[]; // Green timetable; older presets fall back to the default day
+  stations?: GreenStationDef[];
+  employeeOffsets?: Record<string, number>;
+  pinnedBlocks?: PinnedBlock[];
+  greenSeed?: number;
+  greenSolver?: GreenSolverMode;
+  greenRules?: GreenRules;
+  greenPresence?: PresenceThreshold;
+  // Presets saved before the employee directory were keyed by slot (A#/B#) instead of person
+  employeeNames?: Record<string, string>;
+  numGreenEmployees?: number;
+  greenEmployeeNames?: Record<string, string>;
+}
+
+// --- Multi-day ---
+
+// Where a day's inputs come from: the settings on screen, a saved preset version, or nothing
+export type DaySource = { kind: 'current' } | { kind: 'preset'; version: string } | { kind: 'closed' };
+
+export interface DaySchedule {
+  date: string; // yyyy-MM-dd
+  label: string; // Human-readable source, e.g. "Monday v2"
+  blueRoster: string[];
+  greenRoster: string[];
+  // Listed on the day's rosters but away, so left out of the schedule
+  blueOnLeave?: string[];
+  greenOnLeave?: string[];
+  config: ScheduleConfig; // Inputs the day was generated from, kept for display
+  stations: GreenStationDef[];
+  blue: GeneratedSchedule;
+  green: GeneratedGreenSchedule;
+}
+
+// A published day. Names are copied in so renames and removals leave history untouched.
+export interface ArchivedDay extends DaySchedule {
+  publishedAt: string; // ISO timestamp
+  employeeNames: Record<string, string>; // Person.id -> name when published
+}
+
+export interface ArchiveEntry {
+  date: string;
+  label: string;
+  publishedAt: string;
+}
+
+// --- Mid-day Rebalancing ---
+
+// Blue blocks of a day under way: those starting before `before` are kept exactly as they are
+export interface FrozenBlocks {
+  before: string; // HH:mm
+  blocks: TimeBlock[]; // The whole day as it stood; later blocks stay where nothing better turns up
+}
+
+// Green rotations of a day under way: those starting before `before` are kept exactly as they are
+export interface FrozenRotations {
+  before: string; // HH:mm
+  rotations: GreenRotation[]; // The whole day as it stood; later rotations keep people where they were if they can
+}
+
+export interface SentHome {
+  employeeId: string;
+  at: string; // HH:mm; their shift ends here for this day only
+}
+
+// Saved with the day, so regenerating later on keeps what already happened
+export interface DayFreeze {
+  date: string; // yyyy-MM-dd
+  sentHome: SentHome[]; // In the order they left
+  blue: FrozenBlocks;
+  green: FrozenRotations;
+}
+
+export interface BlueChange {
+  employeeId: string;
+  removed: TimeBlock[];
+  added: TimeBlock[];
+}
+
+export interface GreenChange {
+  rotationId: number;
+  employeeId: string;
+  from: string | null; // Station ID, null when they were not in the rotation
+  to: string | null;
+}
+
+// What a rebalance changed for the rest of the day, to pass on to the team
+export interface RebalanceReport {
+  at: string; // HH:mm
+  employeeId: string; // Who went home
+  blue: BlueChange[];
+  green: GreenChange[];
 }